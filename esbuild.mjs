@@ -15,3 +15,11 @@ await esbuild.build({
   platform: 'node',
   external: ['vscode', 'fsevents'],
 });
+
+await esbuild.build({
+  entryPoints: ['lsp-proxy/src/replay.ts'],
+  bundle: true,
+  outfile: 'out/replay.js',
+  platform: 'node',
+  external: ['vscode', 'fsevents'],
+});
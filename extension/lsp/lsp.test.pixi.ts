@@ -27,7 +27,7 @@ suite('LSP', function () {
     // have created the LSP, this test will fail otherwise.
     await vscode.commands.executeCommand('mojo.extension.restart');
 
-    assert.strictEqual(extension.lspManager!.lspClient, undefined);
+    assert.strictEqual(extension.lspManager!.lspClients.size, 0);
   });
 
   test('LSP should be launched when a Mojo file is opened', async function () {
@@ -45,4 +45,25 @@ suite('LSP', function () {
 
     assert.strictEqual((await lsp)!.name, 'Mojo Language Client');
   });
+
+  test('LSP should be launched for a Mojo file outside of the workspace folders', async function () {
+    // Restart the extension. Tests run in a shared environment, so if other tests
+    // have created the LSP, this test will fail otherwise.
+    await vscode.commands.executeCommand('mojo.extension.restart');
+
+    const lsp = firstValueFrom(extension.lspManager!.lspClientChanges);
+
+    const doc = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(
+        path.join(repoConfig.fixtures, 'dangling-file', 'dangling_file.mojo'),
+      ),
+    );
+
+    assert.strictEqual(vscode.workspace.getWorkspaceFolder(doc.uri), undefined);
+    assert.strictEqual(await lsp, extension.lspManager!.lspClients.get(''));
+    assert.strictEqual(
+      extension.lspManager!.getLanguageClient(doc.uri),
+      await lsp,
+    );
+  });
 });
@@ -20,10 +20,13 @@ import { DisposableContext } from '../utils/disposableContext';
 import { Subject } from 'rxjs';
 import { Logger } from '../logging';
 import { TelemetryReporter } from '../telemetry';
-import { LSPRecorder } from './recorder';
+import { LSPRecorder, RecordingSession } from './recorder';
+import { redactRecording } from './redactor';
+import { readFile, writeFile } from '../utils/files';
 import { Optional } from '../types';
 import { PythonEnvironmentManager, SDK } from '../pyenv';
 import path from 'path';
+import { fork } from 'child_process';
 
 /**
  * This type represents the initialization options send by the extension to the
@@ -42,20 +45,557 @@ export interface InitializationOptions {
    * The environment to use when invoking `mojo-lsp-server`.
    */
   serverEnv: { [env: string]: Optional<string> };
+  /**
+   * The policy used by the proxy to restart `mojo-lsp-server` after crashes.
+   */
+  restartPolicy?: RestartPolicy;
+  /**
+   * Where and how the proxy writes crash reproduction bundles.
+   */
+  crashBundle?: CrashBundleOptions;
+  /**
+   * How the proxy minimizes documents that crash the server. Crash triggers
+   * are only minimized if present.
+   */
+  crashMinimizer?: CrashMinimizerOptions;
+  /**
+   * When the proxy considers `mojo-lsp-server` hung. Hung servers are not
+   * detected if missing.
+   */
+  watchdog?: WatchdogOptions;
+  /**
+   * When the proxy recycles `mojo-lsp-server` because of its memory usage. The
+   * memory usage is not monitored if missing.
+   */
+  memoryMonitor?: MemoryMonitorOptions;
+  /**
+   * How the proxy coalesces bursts of `textDocument/didChange` notifications.
+   * They are forwarded as they come if missing.
+   */
+  changeCoalescing?: ChangeCoalescingOptions;
+  /**
+   * The size limits above which the proxy answers expensive requests on a
+   * document locally. Documents are never limited if missing.
+   */
+  largeFile?: LargeFileOptions;
+  /**
+   * Whether the proxy launches a secondary `mojo-lsp-server` for each
+   * workspace folder, which answers latency-sensitive read-only requests while
+   * the primary one is busy.
+   */
+  secondaryServer?: boolean;
+  /**
+   * The options of the servers the proxy launches for specific workspace
+   * folders, which override the ones above.
+   */
+  workspaceFolderOptions?: WorkspaceFolderOptions[];
+}
+
+/**
+ * This type represents the options of the server in charge of the documents
+ * of a workspace folder.
+ */
+export interface WorkspaceFolderOptions {
+  /**
+   * The URI of the workspace folder.
+   */
+  uri: string;
+  serverPath?: string;
+  serverArgs?: string[];
+  serverEnv?: { [env: string]: Optional<string> };
+}
+
+/**
+ * This type represents the size limits of documents. Missing limits don't
+ * apply.
+ */
+export interface LargeFileOptions {
+  maxLines?: number;
+  maxBytes?: number;
+}
+
+/**
+ * The params of the `mojo/largeFileMode` notification sent by the proxy the
+ * first time it answers expensive requests on a large document locally.
+ */
+export interface LargeFileModeParams {
+  uri: string;
+  lineCount: number;
+  byteCount: number;
+}
+
+/**
+ * This type represents the options for coalescing document changes.
+ */
+export interface ChangeCoalescingOptions {
+  /**
+   * The time changes are held back, starting from the first change of a burst,
+   * before they are sent to the server as a single notification.
+   */
+  windowMs: number;
+}
+
+/**
+ * This type represents the options for monitoring the memory usage of the
+ * server.
+ */
+export interface MemoryMonitorOptions {
+  /**
+   * The resident set size above which the server is recycled.
+   */
+  thresholdBytes: number;
+  /**
+   * The interval between memory usage samples.
+   */
+  intervalMs: number;
+}
+
+/**
+ * This type represents the options for detecting hung servers.
+ */
+export interface WatchdogOptions {
+  /**
+   * The time after which a server whose oldest pending request hasn't been
+   * responded is considered hung, killed and restarted.
+   */
+  timeoutMs: number;
+}
+
+/**
+ * This type represents the options for minimizing crash triggers.
+ */
+export interface CrashMinimizerOptions {
+  /**
+   * The maximum number of times the crash is replayed on a fresh server.
+   */
+  maxAttempts: number;
+  /**
+   * The time after which a replay that didn't crash the server is abandoned.
+   */
+  timeoutMs: number;
+}
+
+/**
+ * The params of the `mojo/minimizedCrashTrigger` notification sent by the
+ * proxy once a document that crashed the server has been minimized.
+ */
+export interface MinimizedCrashTriggerParams {
+  uri: string;
+  text: string;
+}
+
+/**
+ * This type represents the options for writing crash reproduction bundles.
+ */
+export interface CrashBundleOptions {
+  /**
+   * The directory where a new bundle is created upon each crash.
+   */
+  directory: string;
+  /**
+   * The number of messages sent to the server before the crash that are
+   * included in the bundle.
+   */
+  messageCount: number;
+  /**
+   * The number of bundles kept in the directory. The oldest ones are deleted.
+   */
+  maxCount: number;
+}
+
+/**
+ * The params of the `mojo/lspRestart` notification sent by the proxy whenever
+ * the server crashed.
+ */
+export interface LSPRestartParams {
+  crashBundlePath?: string;
+  backtrace?: CrashBacktrace;
+}
+
+/**
+ * A crash backtrace written by the server to stderr, as reported by the proxy.
+ */
+export interface CrashBacktrace {
+  text: string;
+  /**
+   * A short description of where the crash happened, if known.
+   */
+  signature?: string;
+}
+
+/**
+ * The params of the `mojo/lspRecycle` notification sent by the proxy whenever
+ * it replaced a healthy server with a fresh one.
+ */
+export interface LSPRecycleParams {
+  reason: string;
+}
+
+/**
+ * This type represents how the proxy restarts a crashed server.
+ */
+export interface RestartPolicy {
+  /**
+   * The maximum number of restarts within `windowMs`.
+   */
+  maxRestarts: number;
+  /**
+   * The length of the sliding window used to count restarts.
+   */
+  windowMs: number;
+  /**
+   * The delay before the second restart within a window, which is doubled for
+   * each subsequent restart.
+   */
+  initialBackoffMs: number;
+  /**
+   * The maximum delay before a restart.
+   */
+  maxBackoffMs: number;
+}
+
+/**
+ * The params of the `mojo/lspServerState` notification sent by the proxy
+ * whenever the server state changes because of a crash, or because the server
+ * of a workspace folder is started.
+ */
+export interface ServerStateParams {
+  state:
+    | 'starting'
+    | 'running'
+    | 'restarting'
+    | 'reopeningDocuments'
+    | 'backingOff'
+    | 'gaveUp';
+  restartCount: number;
+  delayMs?: number;
+  workspaceFolder?: string;
+}
+
+/**
+ * The params of the `mojo/lspServerProcess` notification sent by the proxy
+ * whenever a new server process is launched for a workspace folder.
+ */
+export interface ServerProcessParams {
+  pid?: number;
+  workspaceFolder?: string;
+}
+
+type ServerState = ServerStateParams['state'] | 'stopped';
+
+/**
+ * The order in which the states of the servers take precedence in the
+ * language status item, from the most to the least important.
+ */
+const serverStatePrecedence: ServerState[] = [
+  'gaveUp',
+  'backingOff',
+  'restarting',
+  'reopeningDocuments',
+  'starting',
+  'running',
+  'stopped',
+];
+
+/**
+ * The state of the language server of a single language client, shown by the
+ * language status item.
+ */
+interface LanguageStatus {
+  state: ServerState;
+  /**
+   * The SDK version used by the language client.
+   */
+  sdkVersion?: string;
+  /**
+   * The PID of the server, if it's running.
+   */
+  pid?: number;
+  /**
+   * The number of crashes since the language client was started.
+   */
+  crashCount: number;
+}
+
+/**
+ * The statistics of the requests sent with a given method, as reported by the
+ * proxy in the response to the `mojo/proxyStats` request.
+ */
+export interface MethodStats {
+  method: string;
+  count: number;
+  errors: number;
+  cancellations: number;
+  timeouts: number;
+  inFlight: number;
+  requestsPerSecond: number;
+  p50Ms?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+}
+
+/**
+ * The response to the `mojo/proxyStats` request.
+ */
+export interface ProxyStats {
+  elapsedMs: number;
+  inFlight: number;
+  maxInFlight: number;
+  methods: MethodStats[];
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * @returns a markdown report of the given proxy statistics.
+ */
+function renderProxyStats(stats: ProxyStats): string {
+  const formatMs = (ms: Optional<number>) => (ms === undefined ? '-' : `${ms}`);
+  const lines = [
+    '# Mojo Language Server Statistics',
+    '',
+    `Collected over the last ${(stats.elapsedMs / 1000).toFixed(1)} seconds.`,
+    `Requests in flight: ${stats.inFlight} (max: ${stats.maxInFlight}).`,
+    `Response cache: ${stats.cacheHits} hits, ${stats.cacheMisses} misses.`,
+    '',
+    '| Method | Count | Req/s | p50 (ms) | p95 (ms) | p99 (ms) | Errors | Cancelled | Timeouts | In flight |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+  ];
+  for (const method of stats.methods) {
+    const cells = [
+      method.method,
+      method.count,
+      method.requestsPerSecond.toFixed(2),
+      formatMs(method.p50Ms),
+      formatMs(method.p95Ms),
+      formatMs(method.p99Ms),
+      method.errors,
+      method.cancellations,
+      method.timeouts,
+      method.inFlight,
+    ];
+    lines.push(`| ${cells.join(' | ')} |`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * A request whose replayed response doesn't match the recorded one.
+ */
+export interface ReplayDifference {
+  id: number | string;
+  method: string;
+  recorded: unknown;
+  actual: unknown;
+}
+
+/**
+ * The outcome of replaying a session recording, as printed by the replay
+ * script of the proxy with `--json`.
+ */
+export interface ReplayReport {
+  serverPath: string;
+  messageCount: number;
+  requestCount: number;
+  comparedCount: number;
+  differences: ReplayDifference[];
+  timeouts: { id: number | string; method: string }[];
+  crash?: {
+    status: { code: number | null; signal: string | null };
+    method?: string;
+    backtrace?: CrashBacktrace;
+  };
+}
+
+/**
+ * @returns a markdown report of the given replay.
+ */
+function renderReplayReport(recordingPath: string, report: ReplayReport) {
+  const lines = [
+    '# Mojo Language Server Replay',
+    '',
+    `Replayed ${report.messageCount} messages (${report.requestCount} ` +
+      `requests) of ${recordingPath} against ${report.serverPath}.`,
+    '',
+    `- Responses compared: ${report.comparedCount}`,
+    `- Differences: ${report.differences.length}`,
+    `- Timeouts: ${report.timeouts.length}`,
+    `- Crashed: ${report.crash === undefined ? 'no' : 'yes'}`,
+  ];
+  if (report.crash !== undefined) {
+    const { status, method, backtrace } = report.crash;
+    lines.push(
+      '',
+      '## Crash',
+      '',
+      `The server exited with signal \`${status.signal}\` and exit code ` +
+        `\`${status.code}\`` +
+        (method !== undefined ? ` while processing \`${method}\`.` : '.'),
+    );
+    if (backtrace !== undefined) {
+      lines.push('', '```', backtrace.text, '```');
+    }
+  }
+  if (report.timeouts.length > 0) {
+    lines.push('', '## Timeouts', '');
+    for (const { id, method } of report.timeouts) {
+      lines.push(`- \`${method}\` (${id})`);
+    }
+  }
+  for (const { id, method, recorded, actual } of report.differences) {
+    lines.push(
+      '',
+      `## Difference in \`${method}\` (${id})`,
+      '',
+      'Recorded:',
+      '',
+      '```json',
+      JSON.stringify(recorded, null, 2),
+      '```',
+      '',
+      'Replayed:',
+      '',
+      '```json',
+      JSON.stringify(actual, null, 2),
+      '```',
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * @returns the workspace folder of the given document, if any. Notebook cells
+ *     belong to the folder of their notebook.
+ */
+function getWorkspaceFolder(
+  doc: vscode.TextDocument,
+): Optional<vscode.WorkspaceFolder> {
+  const notebook =
+    doc.uri.scheme === 'vscode-notebook-cell'
+      ? vscode.workspace.notebookDocuments.find((notebook) =>
+          notebook.getCells().some((cell) => cell.document === doc),
+        )
+      : undefined;
+  return vscode.workspace.getWorkspaceFolder(notebook?.uri ?? doc.uri);
+}
+
+/**
+ * @returns the key of the language client in charge of the given workspace
+ *     folder, or of the documents outside of the workspace folders.
+ */
+function getClientKey(workspaceFolder: Optional<vscode.WorkspaceFolder>) {
+  return workspaceFolder?.uri.toString() ?? '';
+}
+
+/**
+ * @returns the glob pattern matching the files inside the given workspace
+ *     folder. The folder path uses forward slashes, which match both separators
+ *     on Windows, and its glob special characters are escaped as single
+ *     character ranges.
+ */
+function getFolderGlobPattern(workspaceFolder: vscode.WorkspaceFolder) {
+  const folderPath = workspaceFolder.uri.fsPath
+    .replace(/\\/g, '/')
+    .replace(/\/$/, '')
+    .replace(/[[{}*?]/g, (char) => `[${char}]`);
+  return `${folderPath}/**/*`;
+}
+
+/**
+ * @returns the key of the language client in charge of the document with the
+ *     given URI. Documents of nested workspace folders belong to the innermost
+ *     one.
+ */
+function getDocumentClientKey(uri: vscode.Uri): string {
+  const doc = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.toString() === uri.toString(),
+  );
+  return getClientKey(
+    doc !== undefined
+      ? getWorkspaceFolder(doc)
+      : vscode.workspace.getWorkspaceFolder(uri),
+  );
+}
+
+/**
+ * @returns whether the given URI is strictly inside the workspace folder with
+ *     the given URI.
+ */
+function isInFolder(uri: string, folderUri: string): boolean {
+  const prefix = folderUri.endsWith('/') ? folderUri : `${folderUri}/`;
+  return uri !== folderUri && uri.startsWith(prefix);
+}
+
+/**
+ * Language client that lets the recorder see every message sent to the
+ * server, including the responses to the requests of the server, which don't
+ * go through the middleware.
+ */
+class RecordedLanguageClient extends vscodelc.LanguageClient {
+  private getRecorder: () => Optional<LSPRecorder>;
+
+  constructor(
+    id: string,
+    name: string,
+    serverOptions: vscodelc.ServerOptions,
+    clientOptions: vscodelc.LanguageClientOptions,
+    getRecorder: () => Optional<LSPRecorder>,
+  ) {
+    super(id, name, serverOptions, clientOptions);
+    this.getRecorder = getRecorder;
+  }
+
+  protected override async createMessageTransports(encoding: string) {
+    const transports = await super.createMessageTransports(encoding);
+    const writer = transports.writer;
+    const write = writer.write.bind(writer);
+    writer.write = (message) => {
+      this.getRecorder()?.handleOutgoingMessage(message);
+      return write(message);
+    };
+    return transports;
+  }
 }
 
 /**
- *  This class manages the LSP clients.
+ *  This class manages the LSP clients, one per workspace folder.
  */
 export class MojoLSPManager extends DisposableContext {
   private extensionContext: vscode.ExtensionContext;
   private envManager: PythonEnvironmentManager;
-  public lspClient: Optional<vscodelc.LanguageClient>;
+  /**
+   * The running language clients, given by the URI of their workspace folder,
+   * or by an empty string for the one of the documents outside of the
+   * workspace folders.
+   */
+  public lspClients = new Map<string, vscodelc.LanguageClient>();
+  /**
+   * Emits the language clients as they are started, and undefined whenever
+   * one is disposed.
+   */
   public lspClientChanges = new Subject<Optional<vscodelc.LanguageClient>>();
+  /**
+   * The subscriptions tied to the lifetime of each language client, including
+   * the client itself, given by the same keys as `lspClients`.
+   */
+  private clientSubscriptions = new Map<string, DisposableContext>();
   private logger: Logger;
   private reporter: TelemetryReporter;
   private recorder: Optional<LSPRecorder>;
+  /**
+   * The details of the running language clients that go in the header of
+   * recordings, given by their key.
+   */
+  private clientToRecordingSession = new Map<string, RecordingSession>();
   private statusBarItem: Optional<vscode.StatusBarItem>;
+  /**
+   * Shows the state of the language server next to Mojo documents.
+   */
+  private languageStatusItem: Optional<vscode.LanguageStatusItem>;
+  /**
+   * The state of the language servers, given by the key of their client.
+   */
+  private clientToLanguageStatus = new Map<string, LanguageStatus>();
   private attachDebugger: boolean = false;
 
   constructor(
@@ -73,25 +613,66 @@ export class MojoLSPManager extends DisposableContext {
   }
 
   async activate() {
+    // The clients are disposed before the language status item, which they
+    // update.
+    this.pushSubscription(
+      new vscode.Disposable(() => {
+        for (const key of [...this.lspClients.keys()]) {
+          this.disposeLanguageClient(key);
+        }
+      }),
+    );
+
     this.pushSubscription(
       vscode.commands.registerCommand('mojo.lsp.restart', async () => {
         // Wait for the language server to stop. This allows a graceful shutdown of the server instead of simply terminating the process, which is important for tracing.
-        if (this.lspClient) {
-          await this.lspClient.stop();
-        }
+        await this.stopLanguageClients();
 
         this.dispose();
-        this.lspClient = undefined;
         await this.activate();
       }),
     );
 
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.lsp.openCrashBundle', () =>
+        this.openLatestCrashBundle(),
+      ),
+    );
+
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.lsp.showStatistics', () =>
+        this.showStatistics(),
+      ),
+    );
+
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.lsp.replayRecording', () =>
+        this.replayRecording(),
+      ),
+    );
+
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.lsp.redactRecording', () =>
+        this.redactRecording(),
+      ),
+    );
+
+    this.pushSubscription(
+      vscode.commands.registerCommand(
+        'mojo.lsp.enableLargeFileFeatures',
+        (uri?: vscode.Uri) => this.enableLargeFileFeatures(uri),
+      ),
+    );
+
     this.pushSubscription(
       vscode.commands.registerCommand('mojo.lsp.stop', async () => {
-        if (this.lspClient) {
-          await this.lspClient.stop();
-          // We do not set lspClient to undefined, as this would trigger
-          // restarting the client when a new mojo file is opened.
+        if (this.lspClients.size > 0) {
+          await this.stopLanguageClients();
+          for (const key of this.lspClients.keys()) {
+            this.updateLanguageStatus(key, { state: 'stopped' });
+          }
+          // We do not remove the clients, as this would trigger restarting
+          // them when a new mojo file is opened.
         }
       }),
     );
@@ -102,14 +683,11 @@ export class MojoLSPManager extends DisposableContext {
     ) {
       this.pushSubscription(
         vscode.commands.registerCommand('mojo.lsp.debug', async () => {
-          if (this.lspClient) {
-            await this.lspClient.stop();
-          }
+          await this.stopLanguageClients();
 
           this.attachDebugger = true;
 
           this.dispose();
-          this.lspClient = undefined;
           await this.activate();
         }),
       );
@@ -118,11 +696,12 @@ export class MojoLSPManager extends DisposableContext {
         vscode.commands.registerTextEditorCommand(
           'mojo.lsp.dumpParsedIR',
           async (textEditor) => {
-            if (!this.lspClient) {
+            const lspClient = this.getLanguageClient(textEditor.document.uri);
+            if (!lspClient) {
               return;
             }
 
-            await this.lspClient.sendNotification('mojo/emitParsedIR', {
+            await lspClient.sendNotification('mojo/emitParsedIR', {
               uri: textEditor.document.uri.toString(),
             });
           },
@@ -141,6 +720,24 @@ export class MojoLSPManager extends DisposableContext {
     this.statusBarItem.command = 'mojo.lsp.stopRecord';
     this.pushSubscription(this.statusBarItem);
 
+    this.languageStatusItem = vscode.languages.createLanguageStatusItem(
+      'mojo.lsp.status',
+      { language: 'mojo' },
+    );
+    this.languageStatusItem.name = 'Mojo Language Server';
+    this.languageStatusItem.command = {
+      title: 'Actions',
+      command: 'mojo.lsp.showActions',
+    };
+    this.showLanguageStatus();
+    this.pushSubscription(this.languageStatusItem);
+
+    this.pushSubscription(
+      vscode.commands.registerCommand('mojo.lsp.showActions', () =>
+        this.showActions(),
+      ),
+    );
+
     this.pushSubscription(
       vscode.commands.registerCommand('mojo.lsp.startRecord', async () => {
         if (this.recorder) {
@@ -159,7 +756,18 @@ export class MojoLSPManager extends DisposableContext {
           'mojo-lsp-recording.jsonl',
         );
 
-        this.recorder = new LSPRecorder(recordPath.fsPath);
+        this.recorder = new LSPRecorder(
+          recordPath.fsPath,
+          this.getActiveRecordingSession() ?? {
+            extensionVersion:
+              this.extensionContext.extension.packageJSON.version,
+          },
+          config.get<boolean>(
+            'lsp.recording.redact',
+            /*workspaceFolder=*/ undefined,
+            false,
+          ),
+        );
         this.pushSubscription(this.recorder);
 
         vscode.window
@@ -206,6 +814,31 @@ export class MojoLSPManager extends DisposableContext {
       ),
     );
 
+    // The clients of removed folders are disposed, while the ones of added
+    // folders are started for the documents that are already open. The clients
+    // of the folders containing an added or removed folder are restarted, as
+    // the documents they serve changed, and so is the client of the documents
+    // outside of the workspace folders.
+    this.pushSubscription(
+      vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+        const changedFolders = [...event.added, ...event.removed];
+        for (const key of [...this.lspClients.keys()]) {
+          if (
+            key === '' ||
+            event.removed.some((folder) => getClientKey(folder) === key) ||
+            changedFolders.some((folder) =>
+              isInFolder(folder.uri.toString(), key),
+            )
+          ) {
+            this.disposeLanguageClient(key);
+          }
+        }
+        vscode.workspace.textDocuments.forEach((doc) =>
+          this.tryStartLanguageClient(doc),
+        );
+      }),
+    );
+
     this.pushSubscription(
       this.envManager.onEnvironmentChange(() => {
         this.logger.info('Restarting language server due to SDK change');
@@ -219,106 +852,819 @@ export class MojoLSPManager extends DisposableContext {
       return;
     }
 
-    const sdk = await this.envManager.getActiveSDK();
+    const workspaceFolder = getWorkspaceFolder(doc);
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
 
     if (!sdk) {
       return;
     }
 
-    if (this.lspClient !== undefined) {
+    const key = getClientKey(workspaceFolder);
+    if (this.lspClients.has(key)) {
       return;
     }
 
-    const includeDirs = config.get<string[]>(
-      'lsp.includeDirs',
-      /*workspaceFolder=*/ undefined,
-      [],
+    const subscriptions = new DisposableContext();
+    const lspClient = this.activateLanguageClient(
+      sdk,
+      workspaceFolder,
+      subscriptions,
     );
-    const lspClient = this.activateLanguageClient(sdk, includeDirs);
-    this.lspClient = lspClient;
-    this.lspClientChanges.next(lspClient);
-    this.pushSubscription(
+    subscriptions.pushSubscription(
       new vscode.Disposable(() => {
         lspClient.stop();
         lspClient.dispose();
-        this.lspClientChanges.next(undefined);
-        this.lspClientChanges.unsubscribe();
       }),
     );
+    this.lspClients.set(key, lspClient);
+    this.clientSubscriptions.set(key, subscriptions);
+    this.lspClientChanges.next(lspClient);
   }
 
   /**
-   * Create a new language server.
+   * Dispose the language client with the given key, if any.
    */
-  activateLanguageClient(
-    sdk: SDK,
-    includeDirs: string[],
-  ): vscodelc.LanguageClient {
-    this.logger.lsp.info('Activating language client');
-
-    const serverArgs: string[] = [];
+  private disposeLanguageClient(key: string) {
+    if (!this.lspClients.has(key)) {
+      return;
+    }
+    this.logger.lsp.info(`Disposing language client ${key || '(default)'}`);
+    this.lspClients.delete(key);
+    this.clientSubscriptions.get(key)?.dispose();
+    this.clientSubscriptions.delete(key);
+    this.clientToRecordingSession.delete(key);
+    this.clientToLanguageStatus.delete(key);
+    this.showLanguageStatus();
+    this.lspClientChanges.next(undefined);
+  }
+
+  /**
+   * Wait for all the language clients to stop, which lets their servers shut
+   * down gracefully.
+   */
+  private async stopLanguageClients() {
+    await Promise.all(
+      [...this.lspClients.values()].map((lspClient) => lspClient.stop()),
+    );
+  }
+
+  /**
+   * @returns the language client in charge of the document with the given
+   *     URI, if it's running.
+   */
+  public getLanguageClient(uri: vscode.Uri): Optional<vscodelc.LanguageClient> {
+    return this.lspClients.get(getDocumentClientKey(uri));
+  }
+
+  /**
+   * @returns the key of the language client of the active editor if it's
+   *     running, or else of the first one.
+   */
+  private getActiveClientKey(): Optional<string> {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const key = uri && getDocumentClientKey(uri);
+    return key !== undefined && this.lspClients.has(key)
+      ? key
+      : this.lspClients.keys().next().value;
+  }
+
+  /**
+   * @returns the language client of the active editor if any, or else the
+   *     first one.
+   */
+  private getActiveLanguageClient(): Optional<vscodelc.LanguageClient> {
+    const key = this.getActiveClientKey();
+    return key !== undefined ? this.lspClients.get(key) : undefined;
+  }
+
+  /**
+   * @returns the details of the language client of the active editor that go
+   *     in the header of recordings, or of the first one.
+   */
+  private getActiveRecordingSession(): Optional<RecordingSession> {
+    const key = this.getActiveClientKey();
+    return key !== undefined
+      ? this.clientToRecordingSession.get(key)
+      : undefined;
+  }
+
+  /**
+   * Let the language server process the expensive requests on the given large
+   * document, or on the active one if missing.
+   */
+  private async enableLargeFileFeatures(uri?: vscode.Uri) {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    const lspClient = target && this.getLanguageClient(target);
+    if (!lspClient || target === undefined) {
+      return;
+    }
+    this.logger.lsp.info(`Enabling all language features for ${target}`);
+    await lspClient.sendNotification('mojo/enableLargeFileFeatures', {
+      uri: target.toString(),
+    });
+  }
+
+  /**
+   * Show a quick pick with the actions related to the language server, and
+   * run the selected one.
+   */
+  private async showActions() {
+    const actions: (vscode.QuickPickItem & { run: () => unknown })[] = [
+      {
+        label: '$(debug-restart) Restart',
+        run: () => vscode.commands.executeCommand('mojo.lsp.restart'),
+      },
+      {
+        label: '$(debug-stop) Stop',
+        run: () => vscode.commands.executeCommand('mojo.lsp.stop'),
+      },
+      this.recorder
+        ? {
+            label: '$(debug-stop) Stop Recording',
+            run: () => vscode.commands.executeCommand('mojo.lsp.stopRecord'),
+          }
+        : {
+            label: '$(record) Start Recording',
+            run: () => vscode.commands.executeCommand('mojo.lsp.startRecord'),
+          },
+      {
+        label: '$(output) Open Logs',
+        run: () => this.logger.lsp.show(),
+      },
+      {
+        label: '$(bug) Open the Latest Crash Bundle',
+        run: () => vscode.commands.executeCommand('mojo.lsp.openCrashBundle'),
+      },
+    ];
+    const action = await vscode.window.showQuickPick(actions, {
+      title: 'Mojo Language Server',
+    });
+    await action?.run();
+  }
+
+  /**
+   * Apply the given changes to the state of the language server of the client
+   * with the given key, and reflect it in the language status item.
+   */
+  private updateLanguageStatus(key: string, update: Partial<LanguageStatus>) {
+    const status = {
+      state: 'stopped' as ServerState,
+      crashCount: 0,
+      ...this.clientToLanguageStatus.get(key),
+      ...update,
+    };
+    // The process of a stopped server is gone.
+    if (status.state === 'stopped') {
+      status.pid = undefined;
+    }
+    this.clientToLanguageStatus.set(key, status);
+    this.showLanguageStatus();
+  }
+
+  /**
+   * Reflect the state of the language servers in the language status item. The
+   * most important state among the servers is shown, along with the folders of
+   * the servers in that state.
+   */
+  private showLanguageStatus() {
+    const item = this.languageStatusItem;
+    if (item === undefined) {
+      return;
+    }
+    const statuses = [...this.clientToLanguageStatus];
+    const state =
+      serverStatePrecedence.find((state) =>
+        statuses.some(([, status]) => status.state === state),
+      ) ?? 'stopped';
+    const crashCount = statuses.reduce(
+      (count, [, status]) => count + status.crashCount,
+      0,
+    );
+    const texts: { [state: string]: string } = {
+      starting: 'Starting',
+      running: 'Running',
+      restarting: 'Restarting',
+      reopeningDocuments: 'Reopening documents',
+      backingOff: 'Waiting to restart',
+      gaveUp: 'Crashed',
+      stopped: 'Not running',
+    };
+    const crashes = `${crashCount} time${crashCount === 1 ? '' : 's'}`;
+    item.text =
+      state === 'gaveUp'
+        ? `Crashed ${crashes}`
+        : crashCount > 0
+          ? `${texts[state]} (crashed ${crashes})`
+          : texts[state];
+    const details = [];
+    const sdkVersions = new Set(
+      statuses.flatMap(([, status]) => status.sdkVersion ?? []),
+    );
+    if (sdkVersions.size > 0) {
+      details.push(`SDK ${[...sdkVersions].join(', ')}`);
+    }
+    const pids = statuses.flatMap(([, status]) => status.pid ?? []);
+    if (pids.length > 0) {
+      details.push(`PID ${pids.join(', ')}`);
+    }
+    details.push(
+      ...statuses
+        .filter(([key, status]) => key !== '' && status.state === state)
+        .map(([key]) => key),
+    );
+    item.detail = details.join(', ');
+    item.busy = ['starting', 'restarting', 'reopeningDocuments'].includes(
+      state,
+    );
+    item.severity =
+      state === 'gaveUp'
+        ? vscode.LanguageStatusSeverity.Error
+        : state === 'backingOff'
+          ? vscode.LanguageStatusSeverity.Warning
+          : vscode.LanguageStatusSeverity.Information;
+  }
+
+  /**
+   * @returns the directory where crash reproduction bundles are written, given
+   *     by the `mojo.lsp.crashBundle.directory` setting of the given folder.
+   */
+  private getCrashBundleDirectory(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): string {
+    const directory = config.get<string>(
+      'lsp.crashBundle.directory',
+      workspaceFolder,
+      '',
+    );
+    if (directory) {
+      return directory;
+    }
+    return vscode.Uri.joinPath(
+      this.extensionContext.globalStorageUri,
+      'crash-bundles',
+    ).fsPath;
+  }
+
+  /**
+   * @returns the crash bundle options given by the `mojo.lsp.crashBundle.*`
+   *     settings of the given folder, or undefined if bundles are disabled.
+   */
+  private getCrashBundleOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<CrashBundleOptions> {
+    if (
+      !config.get<boolean>('lsp.crashBundle.enabled', workspaceFolder, false)
+    ) {
+      return undefined;
+    }
+    return {
+      directory: this.getCrashBundleDirectory(workspaceFolder),
+      messageCount: config.get<number>(
+        'lsp.crashBundle.messageCount',
+        workspaceFolder,
+        50,
+      ),
+      maxCount: config.get<number>(
+        'lsp.crashBundle.maxCount',
+        workspaceFolder,
+        10,
+      ),
+    };
+  }
+
+  /**
+   * @returns the crash minimizer options given by the
+   *     `mojo.lsp.crashMinimizer.*` settings of the given folder, or undefined
+   *     if the minimizer is disabled.
+   */
+  private getCrashMinimizerOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<CrashMinimizerOptions> {
+    if (
+      !config.get<boolean>('lsp.crashMinimizer.enabled', workspaceFolder, false)
+    ) {
+      return undefined;
+    }
+    return {
+      maxAttempts: config.get<number>(
+        'lsp.crashMinimizer.maxAttempts',
+        workspaceFolder,
+        100,
+      ),
+      timeoutMs:
+        config.get<number>(
+          'lsp.crashMinimizer.timeoutSeconds',
+          workspaceFolder,
+          30,
+        ) * 1000,
+    };
+  }
+
+  /**
+   * @returns the watchdog options given by the `mojo.lsp.watchdog.*` settings
+   *     of the given folder, or undefined if the watchdog is disabled. It's
+   *     always disabled while attaching a debugger, as the server might be
+   *     stopped at a breakpoint.
+   */
+  private getWatchdogOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<WatchdogOptions> {
+    if (this.attachDebugger) {
+      return undefined;
+    }
+    const timeoutSeconds = config.get<number>(
+      'lsp.watchdog.timeoutSeconds',
+      workspaceFolder,
+      0,
+    );
+    if (timeoutSeconds <= 0) {
+      return undefined;
+    }
+    return { timeoutMs: timeoutSeconds * 1000 };
+  }
+
+  /**
+   * @returns the memory monitor options given by the
+   *     `mojo.lsp.memoryMonitor.*` settings of the given folder, or undefined
+   *     if the monitor is disabled.
+   */
+  private getMemoryMonitorOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<MemoryMonitorOptions> {
+    const thresholdMegabytes = config.get<number>(
+      'lsp.memoryMonitor.thresholdMegabytes',
+      workspaceFolder,
+      0,
+    );
+    if (thresholdMegabytes <= 0) {
+      return undefined;
+    }
+    return {
+      thresholdBytes: thresholdMegabytes * 2 ** 20,
+      intervalMs:
+        config.get<number>(
+          'lsp.memoryMonitor.intervalSeconds',
+          workspaceFolder,
+          30,
+        ) * 1000,
+    };
+  }
+
+  /**
+   * @returns the change coalescing options given by the
+   *     `mojo.lsp.changeCoalescing.windowMilliseconds` setting of the given
+   *     folder, or undefined if coalescing is disabled.
+   */
+  private getChangeCoalescingOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<ChangeCoalescingOptions> {
+    const windowMs = config.get<number>(
+      'lsp.changeCoalescing.windowMilliseconds',
+      workspaceFolder,
+      0,
+    );
+    return windowMs > 0 ? { windowMs } : undefined;
+  }
+
+  /**
+   * @returns the size limits of documents given by the `mojo.lsp.largeFile.*`
+   *     settings of the given folder, or undefined if there are no limits.
+   */
+  private getLargeFileOptions(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): Optional<LargeFileOptions> {
+    const maxLines = config.get<number>(
+      'lsp.largeFile.maxLines',
+      workspaceFolder,
+      20000,
+    );
+    const maxKilobytes = config.get<number>(
+      'lsp.largeFile.maxKilobytes',
+      workspaceFolder,
+      1024,
+    );
+    if (maxLines <= 0 && maxKilobytes <= 0) {
+      return undefined;
+    }
+    return {
+      maxLines: maxLines > 0 ? maxLines : undefined,
+      maxBytes: maxKilobytes > 0 ? maxKilobytes * 1024 : undefined,
+    };
+  }
+
+  /**
+   * Open the minimized contents of a crash trigger as a new untitled document
+   * next to the original one.
+   */
+  private async showMinimizedCrashTrigger(params: MinimizedCrashTriggerParams) {
+    this.logger.lsp.info(`Minimized the crash trigger ${params.uri}`);
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'mojo',
+      content: params.text,
+    });
+    await vscode.window.showTextDocument(doc, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: false,
+    });
+    vscode.window.showInformationMessage(
+      `This is a minimized version of ${
+        vscode.Uri.parse(params.uri).fsPath
+      } that still crashes the Mojo Language Server.`,
+    );
+  }
+
+  /**
+   * Show the request statistics of the proxy in a new untitled document, and
+   * offer to reset them.
+   */
+  private async showStatistics() {
+    const lspClient = this.getActiveLanguageClient();
+    if (!lspClient) {
+      vscode.window.showInformationMessage(
+        'The Mojo Language Server is not running.',
+      );
+      return;
+    }
+    const stats = await lspClient.sendRequest<ProxyStats>(
+      'mojo/proxyStats',
+      {},
+    );
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: renderProxyStats(stats),
+    });
+    await vscode.window.showTextDocument(doc, { preview: false });
+
+    const action = await vscode.window.showInformationMessage(
+      'These are the Mojo Language Server statistics since the last reset.',
+      'Reset',
+    );
+    if (action === 'Reset') {
+      await lspClient.sendRequest('mojo/proxyStats', { reset: true });
+    }
+  }
+
+  /**
+   * Redact an existing session recording, e.g. one taken before redaction was
+   * enabled, to a new file next to it, and open it.
+   */
+  private async redactRecording() {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const [recordingUri] =
+      (await vscode.window.showOpenDialog({
+        title: 'Redact LSP Recording',
+        defaultUri:
+          workspaceFolder &&
+          vscode.Uri.joinPath(workspaceFolder.uri, 'mojo-lsp-recording.jsonl'),
+        filters: { 'LSP recordings': ['jsonl'] },
+      })) ?? [];
+    if (recordingUri === undefined) {
+      return;
+    }
 
-    for (const includeDir of includeDirs) {
+    const text = await readFile(recordingUri.fsPath);
+    if (text === undefined) {
+      vscode.window.showErrorMessage(
+        `The LSP recording ${recordingUri.fsPath} could not be read.`,
+      );
+      return;
+    }
+    let redacted: string;
+    try {
+      redacted = redactRecording(text);
+    } catch (e) {
+      this.logger.lsp.error(`Failed to redact ${recordingUri.fsPath}`, e);
+      vscode.window.showErrorMessage(
+        'The LSP recording could not be redacted. See the Mojo Language ' +
+          'Server output for details.',
+      );
+      return;
+    }
+    const redactedPath = recordingUri.fsPath.replace(
+      /(\.jsonl)?$/,
+      '.redacted.jsonl',
+    );
+    if (!(await writeFile(redactedPath, redacted))) {
+      vscode.window.showErrorMessage(
+        `The redacted LSP recording could not be written to ${redactedPath}.`,
+      );
+      return;
+    }
+    await vscode.commands.executeCommand(
+      'vscode.open',
+      vscode.Uri.file(redactedPath),
+    );
+  }
+
+  /**
+   * Replay a session recording against the language server of the active SDK
+   * with the replay script of the proxy, and show the report in an editor.
+   */
+  private async replayRecording() {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const sdk = await this.envManager.getActiveSDK(workspaceFolder);
+    if (!sdk) {
+      vscode.window.showErrorMessage(
+        'A Mojo SDK is needed to replay a language server recording.',
+      );
+      return;
+    }
+    const [recordingUri] =
+      (await vscode.window.showOpenDialog({
+        title: 'Replay LSP Recording',
+        defaultUri:
+          workspaceFolder &&
+          vscode.Uri.joinPath(workspaceFolder.uri, 'mojo-lsp-recording.jsonl'),
+        filters: { 'LSP recordings': ['jsonl'] },
+      })) ?? [];
+    if (recordingUri === undefined) {
+      return;
+    }
+    const timing = await vscode.window.showQuickPick(
+      [
+        { label: 'As fast as possible', keepTiming: false },
+        { label: 'With the original timing', keepTiming: true },
+      ],
+      { title: 'How should the recorded messages be sent?' },
+    );
+    if (timing === undefined) {
+      return;
+    }
+
+    const args = [recordingUri.fsPath, '--json', '--server-path', sdk.lspPath];
+    for (const arg of this.getServerArgs(workspaceFolder)) {
+      args.push(`--server-arg=${arg}`);
+    }
+    if (timing.keepTiming) {
+      args.push('--keep-timing');
+    }
+    this.logger.lsp.info(`Replaying ${recordingUri.fsPath}`);
+    const stdout = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Replaying the LSP recording',
+      },
+      () =>
+        new Promise<string>((resolve) => {
+          const replayProcess = fork(this.getScriptPath('replay.js'), args, {
+            // The server inherits the environment of the script, which is
+            // passed here rather than as arguments to keep it out of the
+            // process list. This also runs the script with the Node runtime
+            // of VS Code.
+            env: {
+              ...process.env,
+              ...sdk.getProcessEnv(),
+              ELECTRON_RUN_AS_NODE: '1',
+            },
+            silent: true,
+          });
+          let output = '';
+          replayProcess.stdout!.on('data', (data) => (output += data));
+          replayProcess.stderr!.on('data', (data) =>
+            this.logger.lsp.info(`${data}`.trimEnd()),
+          );
+          replayProcess.on('close', () => resolve(output));
+        }),
+    );
+
+    let report: ReplayReport;
+    try {
+      report = JSON.parse(stdout);
+    } catch {
+      vscode.window.showErrorMessage(
+        'The LSP recording could not be replayed. See the Mojo Language ' +
+          'Server output for details.',
+      );
+      return;
+    }
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: renderReplayReport(recordingUri.fsPath, report),
+    });
+    await vscode.window.showTextDocument(doc, { preview: false });
+  }
+
+  /**
+   * @returns the path to the given script of the proxy, which is bundled
+   *     with the extension unless it's being developed.
+   */
+  private getScriptPath(script: string): string {
+    return this.extensionContext.asAbsolutePath(
+      this.extensionContext.extensionMode == vscode.ExtensionMode.Development
+        ? path.join('lsp-proxy', 'out', script)
+        : path.join('out', script),
+    );
+  }
+
+  /**
+   * Open the manifest of the most recent crash bundle in an editor.
+   */
+  private async openLatestCrashBundle() {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    const directory = this.getCrashBundleDirectory(
+      activeDocument && getWorkspaceFolder(activeDocument),
+    );
+    let bundles: string[] = [];
+    try {
+      bundles = (
+        await vscode.workspace.fs.readDirectory(vscode.Uri.file(directory))
+      )
+        .filter(
+          ([name, type]) =>
+            type === vscode.FileType.Directory &&
+            name.startsWith('mojo-lsp-crash-'),
+        )
+        .map(([name]) => name);
+    } catch {
+      // The directory doesn't exist until the first bundle is written.
+    }
+    if (bundles.length === 0) {
+      vscode.window.showInformationMessage(
+        `No Mojo Language Server crash bundles were found in ${directory}.`,
+      );
+      return;
+    }
+    // Bundle names start with their creation time, so the latest bundle is
+    // the last one in lexicographic order.
+    const latestBundle = bundles.sort()[bundles.length - 1];
+    this.logger.lsp.info(`Opening crash bundle ${latestBundle}`);
+    await vscode.window.showTextDocument(
+      vscode.Uri.file(path.join(directory, latestBundle, 'crash.json')),
+    );
+  }
+
+  /**
+   * @returns the restart policy given by the `mojo.lsp.restart.*` settings of
+   *     the given folder.
+   */
+  private getRestartPolicy(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): RestartPolicy {
+    const getSeconds = (key: string, defaultValue: number) =>
+      config.get<number>(`lsp.restart.${key}`, workspaceFolder, defaultValue) *
+      1000;
+
+    return {
+      maxRestarts: config.get<number>(
+        'lsp.restart.maxRestarts',
+        workspaceFolder,
+        5,
+      ),
+      windowMs: getSeconds('windowSeconds', 180),
+      initialBackoffMs: getSeconds('initialBackoffSeconds', 0.5),
+      maxBackoffMs: getSeconds('maxBackoffSeconds', 30),
+    };
+  }
+
+  /**
+   * @returns the arguments of the server in charge of the given workspace
+   *     folder, including the `mojo.lsp.includeDirs` setting of the folder.
+   */
+  private getServerArgs(
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+  ): string[] {
+    const serverArgs: string[] = [];
+
+    for (const includeDir of config.get<string[]>(
+      'lsp.includeDirs',
+      workspaceFolder,
+      [],
+    )) {
       serverArgs.push('-I', includeDir);
     }
 
     if (this.attachDebugger) {
       serverArgs.push('--attach-debugger-on-startup');
     }
+    return serverArgs;
+  }
+
+  /**
+   * Create a new language client for the given workspace folder, or for the
+   * documents outside of the workspace folders if missing. The subscriptions
+   * tied to the lifetime of the client are pushed to `subscriptions`.
+   */
+  activateLanguageClient(
+    sdk: SDK,
+    workspaceFolder: Optional<vscode.WorkspaceFolder>,
+    subscriptions: DisposableContext,
+  ): vscodelc.LanguageClient {
+    this.logger.lsp.info(
+      `Activating language client${
+        workspaceFolder ? ` for ${workspaceFolder.uri}` : ''
+      }`,
+    );
+    const clientKey = getClientKey(workspaceFolder);
+    const serverArgs = this.getServerArgs(workspaceFolder);
 
     const initializationOptions: InitializationOptions = {
-      serverArgs: serverArgs,
+      serverArgs,
       serverEnv: sdk.getProcessEnv(),
       serverPath: sdk.lspPath,
+      restartPolicy: this.getRestartPolicy(workspaceFolder),
+      crashBundle: this.getCrashBundleOptions(workspaceFolder),
+      crashMinimizer: this.getCrashMinimizerOptions(workspaceFolder),
+      watchdog: this.getWatchdogOptions(workspaceFolder),
+      memoryMonitor: this.getMemoryMonitorOptions(workspaceFolder),
+      changeCoalescing: this.getChangeCoalescingOptions(workspaceFolder),
+      largeFile: this.getLargeFileOptions(workspaceFolder),
+      secondaryServer: config.get<boolean>(
+        'lsp.secondaryServer.enabled',
+        workspaceFolder,
+        false,
+      ),
+      // The client is bound to a single workspace folder, so the proxy only
+      // launches the server of that folder.
+      workspaceFolderOptions: workspaceFolder
+        ? [
+            {
+              uri: workspaceFolder.uri.toString(),
+              serverArgs,
+            },
+          ]
+        : [],
     };
 
-    const module = this.extensionContext.asAbsolutePath(
-      this.extensionContext.extensionMode == vscode.ExtensionMode.Development
-        ? path.join('lsp-proxy', 'out', 'proxy.js')
-        : path.join('out', 'proxy.js'),
-    );
+    this.clientToRecordingSession.set(clientKey, {
+      extensionVersion: this.extensionContext.extension.packageJSON.version,
+      sdkVersion: sdk.version,
+      sdkKind: sdk.kind,
+      serverPath: initializationOptions.serverPath,
+      serverArgs: initializationOptions.serverArgs,
+    });
+
+    const module = this.getScriptPath('proxy.js');
 
     const serverOptions: vscodelc.ServerOptions = {
       run: { module, transport: TransportKind.ipc },
       debug: { module, transport: TransportKind.ipc },
     };
 
+    // Each workspace folder has its own client, which serves the documents of
+    // the folder with the SDK of the folder. The client of the documents
+    // outside of the workspace folders selects all the documents, and the
+    // middleware below leaves the ones of the workspace folders to their own
+    // client, along with the documents of the workspace folders nested in the
+    // one of the client.
+    const filter = workspaceFolder && {
+      pattern: getFolderGlobPattern(workspaceFolder),
+    };
+    const documentSelector: vscodelc.DocumentSelector = [
+      { language: 'mojo', ...filter },
+      { scheme: 'vscode-notebook-cell', language: 'mojo', ...filter },
+    ];
+    // Notify the server about file changes following the given file pattern.
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(
+      workspaceFolder
+        ? new vscode.RelativePattern(workspaceFolder, '**/*.{mojo,🔥,ipynb}')
+        : '**/*.{mojo,🔥,ipynb}',
+    );
+    subscriptions.pushSubscription(fileWatcher);
+
     // Configure the client options.
     const clientOptions: vscodelc.LanguageClientOptions = {
-      // The current selection mechanism indicates all documents to be served
-      // by the same single LSP Server. This wouldn't work if at some point
-      // we support multiple SDKs running at once, for which we'd need a more
-      // flexible way to manage LSP Servers than `vscodelc`. Two options might
-      // be feasible:
-      // - Fork/contribute `vscodelc` and allow for a more customizable selection logic.
-      // - Do the selection within the proxy, which would be "easy" to implement
-      //   if the proxy is restarted with the new correct info whenever a new SDK is
-      //   identified.
-      documentSelector: [
-        {
-          language: 'mojo',
-        },
-        {
-          scheme: 'vscode-notebook-cell',
-          language: 'mojo',
-        },
-      ],
+      documentSelector,
+      workspaceFolder,
       synchronize: {
-        // Notify the server about file changes following the given file
-        // pattern.
-        fileEvents: vscode.workspace.createFileSystemWatcher(
-          '**/*.{mojo,🔥,ipynb}',
-        ),
+        fileEvents: fileWatcher,
       },
       outputChannel: this.logger.lsp.outputChannel,
 
       // Don't switch to output window when the server returns output.
       revealOutputChannelOn: vscodelc.RevealOutputChannelOn.Never,
       initializationOptions: initializationOptions,
+      connectionOptions: {
+        // This lets the recorder see the messages sent by the server.
+        messageStrategy: {
+          handleMessage: (message, next) => {
+            if (this.recorder) {
+              this.recorder.handleMessage(message, next);
+            } else {
+              next(message);
+            }
+          },
+        },
+      },
+    };
+
+    // Whether the document of the given params, if any, belongs to another
+    // client, which happens for the documents of nested workspace folders, and
+    // for the documents of the workspace folders in the client of the documents
+    // outside of them.
+    const isForOtherClient = (param: any) => {
+      const uri: unknown =
+        param?.textDocument?.uri ?? param?.notebookDocument?.uri;
+      return (
+        typeof uri === 'string' &&
+        getDocumentClientKey(vscode.Uri.parse(uri)) !== clientKey
+      );
     };
 
     clientOptions.middleware = {
       sendRequest: (method, param, token, next) => {
+        if (isForOtherClient(param)) {
+          return Promise.resolve(null as any);
+        }
         if (this.recorder) {
           return this.recorder.sendRequest(method, param, token, next);
         } else {
@@ -326,6 +1672,9 @@ export class MojoLSPManager extends DisposableContext {
         }
       },
       sendNotification: (method, next, param) => {
+        if (isForOtherClient(param)) {
+          return Promise.resolve();
+        }
         if (this.recorder) {
           return this.recorder.sendNotification(method, next, param);
         } else {
@@ -336,7 +1685,7 @@ export class MojoLSPManager extends DisposableContext {
         if (
           config.get<boolean>(
             'lsp.suppress.diagnostics.in.docstring',
-            /*workspaceFolder=*/ undefined,
+            workspaceFolder,
             false,
           )
         ) {
@@ -365,23 +1714,132 @@ export class MojoLSPManager extends DisposableContext {
     };
 
     // Create the language client and start the client.
-    const languageClient = new vscodelc.LanguageClient(
+    const languageClient = new RecordedLanguageClient(
       'mojo-lsp',
       'Mojo Language Client',
       serverOptions,
       clientOptions,
+      () => this.recorder,
     );
 
     // The proxy sends us a mojo/lspRestart notification when it restarts the
     // underlying language server. It's our job to pass that to the telemetry
     // backend.
-    this.pushSubscription(
-      languageClient.onNotification('mojo/lspRestart', () => {
-        this.reporter.sendTelemetryEvent('lspRestart', {
-          mojoSDKVersion: sdk.version,
-          mojoSDKKind: sdk.kind,
-        });
-      }),
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/lspRestart',
+        (params: Optional<LSPRestartParams>) => {
+          this.updateLanguageStatus(clientKey, {
+            crashCount:
+              (this.clientToLanguageStatus.get(clientKey)?.crashCount ?? 0) + 1,
+          });
+          const signature = params?.backtrace?.signature;
+          this.reporter.sendTelemetryEvent('lspRestart', {
+            mojoSDKVersion: sdk.version,
+            mojoSDKKind: sdk.kind,
+            ...(signature !== undefined && { crashSignature: signature }),
+          });
+          if (params?.crashBundlePath) {
+            this.logger.lsp.info(
+              `Crash reproduction bundle written to ${params.crashBundlePath}`,
+            );
+          }
+          if (signature !== undefined) {
+            vscode.window.showWarningMessage(
+              `The Mojo Language Server crashed in ${signature} and was ` +
+                'restarted.',
+            );
+          }
+        },
+      ),
+    );
+
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/lspRecycle',
+        (params: LSPRecycleParams) => {
+          this.logger.lsp.info(`Language server recycled. ${params.reason}`);
+          vscode.window.showInformationMessage(
+            `${params.reason} It was restarted to free up memory.`,
+          );
+        },
+      ),
+    );
+
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/largeFileMode',
+        (params: LargeFileModeParams) => {
+          this.logger.lsp.info('Large file mode enabled', params);
+          vscode.window
+            .showInformationMessage(
+              `${path.basename(
+                vscode.Uri.parse(params.uri).fsPath,
+              )} is large, so semantic highlighting, inlay hints and folding ` +
+                'are disabled for it.',
+              'Enable Anyway',
+            )
+            .then((action) => {
+              if (action === 'Enable Anyway') {
+                vscode.commands.executeCommand(
+                  'mojo.lsp.enableLargeFileFeatures',
+                  vscode.Uri.parse(params.uri),
+                );
+              }
+            });
+        },
+      ),
+    );
+
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/minimizedCrashTrigger',
+        (params: MinimizedCrashTriggerParams) =>
+          this.showMinimizedCrashTrigger(params),
+      ),
+    );
+
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/lspServerProcess',
+        (params: ServerProcessParams) => {
+          this.logger.lsp.info('Language server process launched', params);
+          this.updateLanguageStatus(clientKey, { pid: params.pid });
+        },
+      ),
+    );
+
+    subscriptions.pushSubscription(
+      languageClient.onNotification(
+        'mojo/lspServerState',
+        (params: ServerStateParams) => {
+          this.logger.lsp.info('Language server state changed', params);
+          // The process of a crashed server is gone.
+          this.updateLanguageStatus(clientKey, {
+            state: params.state,
+            ...(['restarting', 'backingOff', 'gaveUp'].includes(
+              params.state,
+            ) && { pid: undefined }),
+          });
+          if (params.state !== 'gaveUp') {
+            return;
+          }
+          vscode.window
+            .showErrorMessage(
+              `The Mojo Language Server${
+                params.workspaceFolder ? ` for ${params.workspaceFolder}` : ''
+              } crashed ${
+                params.restartCount
+              } times recently and won't be restarted automatically.`,
+              'Restart',
+            )
+            .then((action) => {
+              if (action === 'Restart') {
+                vscode.commands.executeCommand('mojo.lsp.restart');
+              }
+            });
+        },
+      ),
     );
 
     this.logger.lsp.info(
@@ -393,7 +1851,20 @@ export class MojoLSPManager extends DisposableContext {
     this.logger.lsp.info('Launching Language Server');
     // We intentionally don't await the `start` so that we can cancelling it
     // during a long initialization, which can happen when in debug mode.
-    languageClient.start();
+    this.updateLanguageStatus(clientKey, {
+      state: 'starting',
+      sdkVersion: sdk.version,
+    });
+    // The client may have been disposed in the meantime.
+    const updateStartedStatus = (state: ServerState) => {
+      if (this.lspClients.get(clientKey) === languageClient) {
+        this.updateLanguageStatus(clientKey, { state });
+      }
+    };
+    languageClient.start().then(
+      () => updateStartedStatus('running'),
+      () => updateStartedStatus('stopped'),
+    );
     return languageClient;
   }
 }
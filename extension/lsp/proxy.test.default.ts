@@ -0,0 +1,1530 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import { ChildProcess, fork } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CancellationTokenSource,
+  createMessageConnection,
+  IPCMessageReader,
+  IPCMessageWriter,
+  MessageConnection,
+  ResponseError,
+  StreamMessageReader,
+  StreamMessageWriter,
+} from 'vscode-jsonrpc/node';
+import { FakeServerScript, getFakeServerArgs } from '../test/fakeLSPServer';
+import {
+  InitializationOptions,
+  LSPRecycleParams,
+  LSPRestartParams,
+  MinimizedCrashTriggerParams,
+  ProxyStats,
+  ReplayReport,
+  ServerProcessParams,
+  ServerStateParams,
+} from './lsp';
+import { RecordedMessage } from './recorder';
+
+const proxyPath = path.join(
+  __dirname,
+  '..',
+  '..',
+  'lsp-proxy',
+  'out',
+  'proxy.js',
+);
+
+const replayPath = path.join(
+  __dirname,
+  '..',
+  '..',
+  'lsp-proxy',
+  'out',
+  'replay.js',
+);
+
+const documentUri = 'file:///fake/main.mojo';
+
+suite('LSP proxy', function () {
+  let proxyProcess: ChildProcess;
+  let connection: MessageConnection;
+  let serverStates: ServerStateParams[];
+  let serverStateListeners: ((params: ServerStateParams) => void)[];
+
+  /**
+   * @returns a promise resolved once the proxy reports the given server state.
+   */
+  function waitForServerState(
+    state: ServerStateParams['state'],
+  ): Promise<void> {
+    return new Promise((resolve) =>
+      serverStateListeners.push((params) => {
+        if (params.state === state) {
+          resolve();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Launch the proxy on top of a fake server following the given script and
+   * initialize it.
+   *
+   * @returns the result of the initialize request.
+   */
+  async function startProxy(
+    script: FakeServerScript,
+    options: Partial<InitializationOptions> = {},
+    initializeParams: object = {},
+  ): Promise<any> {
+    proxyProcess = fork(proxyPath, ['--node-ipc'], { silent: true });
+    connection = createMessageConnection(
+      new IPCMessageReader(proxyProcess),
+      new IPCMessageWriter(proxyProcess),
+    );
+    serverStates = [];
+    serverStateListeners = [];
+    connection.onNotification(
+      'mojo/lspServerState',
+      (params: ServerStateParams) => {
+        serverStates.push(params);
+        serverStateListeners.forEach((listener) => listener(params));
+      },
+    );
+    connection.listen();
+
+    const initializationOptions: InitializationOptions = {
+      serverPath: process.execPath,
+      serverArgs: getFakeServerArgs(script),
+      serverEnv: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+      ...options,
+    };
+    const result = await connection.sendRequest('initialize', {
+      processId: process.pid,
+      rootUri: null,
+      capabilities: {},
+      initializationOptions,
+      ...initializeParams,
+    });
+    connection.sendNotification('initialized', {});
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: documentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn main():\n    pass\n',
+      },
+    });
+    return result;
+  }
+
+  teardown(function () {
+    connection?.dispose();
+    proxyProcess?.kill();
+  });
+
+  test('results from the server should be relayed', async function () {
+    await startProxy({
+      'textDocument/hover': {
+        result: { contents: 'fn main()' },
+      },
+    });
+
+    const hover = await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(hover, { contents: 'fn main()' });
+  });
+
+  test('cancellations should be forwarded to the server', async function () {
+    await startProxy({
+      '$/cancelRequest': { echo: true },
+      'textDocument/hover': {
+        hang: true,
+        notifications: [
+          {
+            method: 'window/logMessage',
+            params: { type: 4, message: 'hover' },
+          },
+        ],
+      },
+    });
+    const logMessages: string[] = [];
+    let onLogMessage: () => void;
+    connection.onNotification('window/logMessage', (params) => {
+      logMessages.push(params.message);
+      onLogMessage();
+    });
+    const waitForLogMessage = () =>
+      new Promise<void>((resolve) => (onLogMessage = resolve));
+
+    const tokenSource = new CancellationTokenSource();
+    const received = waitForLogMessage();
+    const hover = connection.sendRequest(
+      'textDocument/hover',
+      {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      },
+      tokenSource.token,
+    );
+    // The request is only cancelled once the server is working on it.
+    await received;
+    const cancelled = waitForLogMessage();
+    tokenSource.cancel();
+
+    await assert.rejects(hover, (error: ResponseError<any>) => {
+      assert.strictEqual(error.code, -32800);
+      return true;
+    });
+    await cancelled;
+    assert.strictEqual(logMessages.length, 2);
+    assert.ok('id' in JSON.parse(logMessages[1]));
+  });
+
+  test('advertised capabilities should be relayed', async function () {
+    const symbols = [
+      {
+        name: 'main',
+        kind: 12,
+        location: { uri: documentUri },
+      },
+    ];
+    const { capabilities } = await startProxy({
+      initialize: {
+        result: {
+          capabilities: {
+            documentHighlightProvider: true,
+            documentFormattingProvider: true,
+            workspaceSymbolProvider: true,
+            unknownFutureProvider: true,
+            workspace: {
+              workspaceFolders: { supported: true, changeNotifications: true },
+              fileOperations: {
+                willRename: { filters: [{ pattern: { glob: '**/*.mojo' } }] },
+                didRename: { filters: [{ pattern: { glob: '**/*.mojo' } }] },
+              },
+            },
+          },
+        },
+      },
+      'textDocument/documentHighlight': { result: [] },
+      'textDocument/formatting': { result: [] },
+      'workspace/symbol': { result: symbols },
+    });
+    assert.strictEqual(capabilities.documentFormattingProvider, true);
+    // Capabilities that the proxy can't relay aren't advertised.
+    assert.ok(!('unknownFutureProvider' in capabilities));
+    assert.deepStrictEqual(Object.keys(capabilities.workspace), [
+      'fileOperations',
+    ]);
+    assert.deepStrictEqual(Object.keys(capabilities.workspace.fileOperations), [
+      'willRename',
+    ]);
+
+    const highlights = await connection.sendRequest(
+      'textDocument/documentHighlight',
+      {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      },
+    );
+    assert.deepStrictEqual(highlights, []);
+    assert.deepStrictEqual(
+      await connection.sendRequest('textDocument/formatting', {
+        textDocument: { uri: documentUri },
+        options: { tabSize: 4, insertSpaces: true },
+      }),
+      [],
+    );
+    assert.deepStrictEqual(
+      await connection.sendRequest('workspace/symbol', { query: 'ma' }),
+      symbols,
+    );
+    // Methods that the server doesn't advertise are not relayed.
+    await assert.rejects(
+      connection.sendRequest('textDocument/typeDefinition', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      (error: ResponseError<any>) => {
+        assert.strictEqual(error.code, -32601);
+        return true;
+      },
+    );
+  });
+
+  test('multi-byte characters should not desync the stream', async function () {
+    // Large enough to be split in multiple chunks, most likely in the middle
+    // of a character.
+    const contents = '🔥 fn 関数(): 🔥\n'.repeat(20000);
+    await startProxy({
+      'textDocument/hover': { result: { contents } },
+      'textDocument/documentSymbol': { result: [] },
+    });
+
+    const hover = await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(hover, { contents });
+
+    const symbols = await connection.sendRequest(
+      'textDocument/documentSymbol',
+      { textDocument: { uri: documentUri } },
+    );
+    assert.deepStrictEqual(symbols, []);
+  });
+
+  test('malformed packets should be skipped', async function () {
+    await startProxy({
+      'textDocument/hover': {
+        rawPrefix:
+          'Content-Length: nope\r\n\r\n' +
+          'Content-Length: 6\r\n\r\n{oops}' +
+          'garbage\r\n',
+        result: { contents: 'fn main()' },
+      },
+    });
+
+    const hover = await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(hover, { contents: 'fn main()' });
+  });
+
+  test('errors from the server should be relayed', async function () {
+    await startProxy({
+      'textDocument/rename': {
+        error: {
+          code: -32803,
+          message: 'cannot resolve symbol',
+          data: { symbol: 'main' },
+        },
+      },
+    });
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/rename', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+        newName: 'start',
+      }),
+      (error: ResponseError<any>) => {
+        assert.strictEqual(error.code, -32803);
+        assert.strictEqual(error.message, 'cannot resolve symbol');
+        assert.deepStrictEqual(error.data, { symbol: 'main' });
+        return true;
+      },
+    );
+  });
+
+  test('initialization errors should be relayed', async function () {
+    await assert.rejects(
+      startProxy({
+        initialize: {
+          error: { code: -32603, message: 'invalid include directory' },
+        },
+      }),
+      (error: ResponseError<any>) => {
+        assert.strictEqual(error.code, -32603);
+        assert.strictEqual(error.message, 'invalid include directory');
+        return true;
+      },
+    );
+  });
+
+  test('crashed servers should be restarted', async function () {
+    await startProxy({ 'textDocument/hover': { exitCode: 1 } });
+    const running = waitForServerState('running');
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      /crashed/,
+    );
+    await running;
+    assert.deepStrictEqual(
+      serverStates.map((params) => params.state),
+      ['restarting', 'running'],
+    );
+  });
+
+  test('server processes should be reported', async function () {
+    await startProxy({ 'textDocument/hover': { exitCode: 1 } });
+    const processes: ServerProcessParams[] = [];
+    let onProcess: () => void;
+    connection.onNotification(
+      'mojo/lspServerProcess',
+      (params: ServerProcessParams) => {
+        processes.push(params);
+        onProcess();
+      },
+    );
+    const nextProcess = () =>
+      new Promise<void>((resolve) => (onProcess = resolve));
+
+    // The server launched during the initialization is reported once the
+    // client is initialized.
+    await nextProcess();
+    const restarted = nextProcess();
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      /crashed/,
+    );
+    await restarted;
+    assert.strictEqual(processes.length, 2);
+    assert.ok(processes.every((params) => typeof params.pid === 'number'));
+    assert.notStrictEqual(processes[0].pid, processes[1].pid);
+  });
+
+  test('the proxy should give up after too many restarts', async function () {
+    await startProxy(
+      { 'textDocument/hover': { exitCode: 1 } },
+      {
+        restartPolicy: {
+          maxRestarts: 1,
+          windowMs: 60 * 1000,
+          initialBackoffMs: 10,
+          maxBackoffMs: 10,
+        },
+      },
+    );
+    const hover = () =>
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      });
+
+    const running = waitForServerState('running');
+    await assert.rejects(hover());
+    await running;
+
+    const gaveUp = waitForServerState('gaveUp');
+    await assert.rejects(hover());
+    await gaveUp;
+
+    // The proxy stays alive, but without a server.
+    await assert.rejects(hover(), /not running/);
+    assert.strictEqual(proxyProcess.exitCode, null);
+  });
+
+  test('crashes should write a reproduction bundle', async function () {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'crash-bundles-'));
+    const staleBundle = path.join(directory, 'mojo-lsp-crash-2000-01-01');
+    fs.mkdirSync(staleBundle);
+    await startProxy(
+      { 'textDocument/hover': { exitCode: 1 } },
+      {
+        crashBundle: { directory, messageCount: 10, maxCount: 1 },
+        serverEnv: {
+          ...process.env,
+          ELECTRON_RUN_AS_NODE: '1',
+          MODULAR_AUTH_TOKEN: 'hunter2',
+          MOJO_LSP_TEST_SECRET: 'hunter2',
+          UNRELATED_API_KEY: 'hunter2',
+        },
+      },
+    );
+    const restarted = new Promise<LSPRestartParams>((resolve) =>
+      connection.onNotification('mojo/lspRestart', resolve),
+    );
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+    );
+    const { crashBundlePath } = await restarted;
+    assert.ok(crashBundlePath);
+    assert.strictEqual(path.dirname(crashBundlePath), directory);
+    // Only the latest bundle is kept.
+    assert.ok(!fs.existsSync(staleBundle));
+
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(crashBundlePath, 'crash.json'), 'utf8'),
+    );
+    assert.strictEqual(manifest.exitStatus.code, 1);
+    assert.strictEqual(manifest.crashTriggerUri, documentUri);
+    assert.strictEqual(manifest.server.env.PATH, process.env.PATH);
+    assert.strictEqual(manifest.server.env.MODULAR_AUTH_TOKEN, '<redacted>');
+    assert.strictEqual(manifest.server.env.MOJO_LSP_TEST_SECRET, '<redacted>');
+    assert.ok(!('UNRELATED_API_KEY' in manifest.server.env));
+    assert.deepStrictEqual(
+      manifest.pendingRequests.map((request: any) => request.method),
+      ['textDocument/hover'],
+    );
+    assert.deepStrictEqual(
+      manifest.recentMessages.map((message: any) => message.method),
+      ['initialize', 'textDocument/didOpen', 'textDocument/hover'],
+    );
+    assert.strictEqual(manifest.documents.length, 1);
+    assert.strictEqual(manifest.documents[0].version, 1);
+    assert.strictEqual(
+      fs.readFileSync(
+        path.join(crashBundlePath, manifest.documents[0].file),
+        'utf8',
+      ),
+      'fn main():\n    pass\n',
+    );
+  });
+
+  test('crash triggers should be minimized', async function () {
+    await startProxy(
+      {
+        'textDocument/hover': {
+          exitCode: 1,
+          exitIfDocumentContains: 'crash()',
+        },
+      },
+      { crashMinimizer: { maxAttempts: 50, timeoutMs: 5000 } },
+    );
+    const minimized = new Promise<MinimizedCrashTriggerParams>((resolve) =>
+      connection.onNotification('mojo/minimizedCrashTrigger', resolve),
+    );
+    const uri = 'file:///fake/crash.mojo';
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri,
+        languageId: 'mojo',
+        version: 1,
+        text: [
+          'fn foo():',
+          '    pass',
+          'fn bar():',
+          '    crash()',
+          'fn main():',
+          '    foo()',
+          '    bar()',
+          '',
+        ].join('\n'),
+      },
+    });
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri },
+        position: { line: 3, character: 4 },
+      }),
+    );
+    assert.deepStrictEqual(await minimized, {
+      uri,
+      text: '    crash()\n',
+    });
+  });
+
+  test('crash triggers should be minimized around the crashing position', async function () {
+    await startProxy(
+      {
+        'textDocument/hover': { exitCode: 1, exitIfPositionAt: 'crash()' },
+      },
+      { crashMinimizer: { maxAttempts: 50, timeoutMs: 5000 } },
+    );
+    const minimized = new Promise<MinimizedCrashTriggerParams>((resolve) =>
+      connection.onNotification('mojo/minimizedCrashTrigger', resolve),
+    );
+    const uri = 'file:///fake/crash.mojo';
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri,
+        languageId: 'mojo',
+        version: 1,
+        text: [
+          'fn foo():',
+          '    pass',
+          'fn bar():',
+          '    pass',
+          'fn main():',
+          '    foo()',
+          '    crash()',
+          '',
+        ].join('\n'),
+      },
+    });
+
+    // The position of the request follows its line as the lines before it are
+    // removed.
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri },
+        position: { line: 6, character: 4 },
+      }),
+    );
+    assert.deepStrictEqual(await minimized, {
+      uri,
+      text: '    crash()\n',
+    });
+  });
+
+  test('diagnostics should be restored after a crash', async function () {
+    const diagnostic = {
+      message: "use of unknown declaration 'foo'",
+      range: {
+        start: { line: 1, character: 4 },
+        end: { line: 1, character: 7 },
+      },
+      severity: 1,
+    };
+    await startProxy({
+      'textDocument/documentSymbol': {
+        notifications: [
+          {
+            method: 'textDocument/publishDiagnostics',
+            params: { uri: documentUri, version: 1, diagnostics: [diagnostic] },
+          },
+        ],
+        result: [],
+      },
+      'textDocument/hover': { exitCode: 1 },
+    });
+    const published: any[] = [];
+    connection.onNotification('textDocument/publishDiagnostics', (params) =>
+      published.push(params),
+    );
+    const documentSymbol = () =>
+      connection.sendRequest('textDocument/documentSymbol', {
+        textDocument: { uri: documentUri },
+      });
+
+    await documentSymbol();
+    const running = waitForServerState('running');
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+    );
+    await running;
+
+    assert.strictEqual(published[published.length - 1].version, 1);
+    const restored = published[published.length - 1].diagnostics;
+    assert.strictEqual(restored.length, 2);
+    assert.match(restored[0].message, /crash happened/);
+    assert.deepStrictEqual(restored[1], {
+      ...diagnostic,
+      message: `(stale) ${diagnostic.message}`,
+    });
+
+    // Fresh diagnostics from the new server replace the stale ones.
+    await documentSymbol();
+    assert.deepStrictEqual(published[published.length - 1].diagnostics, [
+      diagnostic,
+    ]);
+  });
+
+  test('diagnostics published without a version should be restored after a crash', async function () {
+    const diagnostic = {
+      message: "use of unknown declaration 'foo'",
+      range: {
+        start: { line: 1, character: 4 },
+        end: { line: 1, character: 7 },
+      },
+      severity: 1,
+    };
+    await startProxy({
+      'textDocument/documentSymbol': {
+        notifications: [
+          {
+            method: 'textDocument/publishDiagnostics',
+            params: { uri: documentUri, diagnostics: [diagnostic] },
+          },
+        ],
+        result: [],
+      },
+      'textDocument/hover': { exitCode: 1 },
+    });
+    const published: any[] = [];
+    connection.onNotification('textDocument/publishDiagnostics', (params) =>
+      published.push(params),
+    );
+
+    await connection.sendRequest('textDocument/documentSymbol', {
+      textDocument: { uri: documentUri },
+    });
+    const running = waitForServerState('running');
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+    );
+    await running;
+
+    // The diagnostics are taken as computed for the version the server had.
+    assert.strictEqual(published[published.length - 1].version, 1);
+    assert.deepStrictEqual(published[published.length - 1].diagnostics[1], {
+      ...diagnostic,
+      message: `(stale) ${diagnostic.message}`,
+    });
+  });
+
+  test('idempotent requests should be cached', async function () {
+    await startProxy({
+      'textDocument/documentSymbol': {
+        // Lets the test count the requests that reach the server.
+        notifications: [
+          {
+            method: 'window/logMessage',
+            params: { type: 4, message: 'documentSymbol' },
+          },
+        ],
+        result: [],
+      },
+    });
+    let serverRequestCount = 0;
+    connection.onNotification('window/logMessage', (params) => {
+      if (params.message === 'documentSymbol') {
+        serverRequestCount++;
+      }
+    });
+    const documentSymbol = () =>
+      connection.sendRequest('textDocument/documentSymbol', {
+        textDocument: { uri: documentUri },
+      });
+
+    assert.deepStrictEqual(await documentSymbol(), []);
+    assert.deepStrictEqual(await documentSymbol(), []);
+    assert.strictEqual(serverRequestCount, 1);
+
+    // Edits invalidate the cache.
+    connection.sendNotification('textDocument/didChange', {
+      textDocument: { uri: documentUri, version: 2 },
+      contentChanges: [{ text: 'fn main():\n    return\n' }],
+    });
+    assert.deepStrictEqual(await documentSymbol(), []);
+    assert.strictEqual(serverRequestCount, 2);
+
+    const stats: ProxyStats = await connection.sendRequest(
+      'mojo/proxyStats',
+      {},
+    );
+    assert.strictEqual(stats.cacheHits, 1);
+    assert.strictEqual(stats.cacheMisses, 2);
+  });
+
+  test('request statistics should be reported', async function () {
+    await startProxy({
+      'textDocument/hover': { result: null },
+      'textDocument/rename': {
+        error: { code: -32803, message: 'cannot resolve symbol' },
+      },
+    });
+    const position = { line: 0, character: 3 };
+    await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position,
+    });
+    await assert.rejects(
+      connection.sendRequest('textDocument/rename', {
+        textDocument: { uri: documentUri },
+        position,
+        newName: 'start',
+      }),
+    );
+
+    const stats: ProxyStats = await connection.sendRequest('mojo/proxyStats', {
+      reset: true,
+    });
+    assert.strictEqual(stats.inFlight, 0);
+    assert.deepStrictEqual(
+      stats.methods.map(({ method, count, errors, inFlight }) => ({
+        method,
+        count,
+        errors,
+        inFlight,
+      })),
+      [
+        { method: 'initialize', count: 1, errors: 0, inFlight: 0 },
+        { method: 'textDocument/hover', count: 1, errors: 0, inFlight: 0 },
+        { method: 'textDocument/rename', count: 1, errors: 1, inFlight: 0 },
+      ],
+    );
+    assert.ok(stats.methods.every((method) => method.p50Ms !== undefined));
+
+    const resetStats: ProxyStats = await connection.sendRequest(
+      'mojo/proxyStats',
+      {},
+    );
+    assert.deepStrictEqual(resetStats.methods, []);
+  });
+
+  test('hung servers should be restarted', async function () {
+    await startProxy(
+      { 'textDocument/hover': { hang: true } },
+      {
+        watchdog: { timeoutMs: 200 },
+        crashMinimizer: { maxAttempts: 50, timeoutMs: 5000 },
+      },
+    );
+    const logMessages: string[] = [];
+    connection.onNotification('window/logMessage', (params) =>
+      logMessages.push(params.message),
+    );
+    const running = waitForServerState('running');
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      /stopped responding/,
+    );
+    await running;
+    // Hangs can't be reproduced by replaying the document.
+    assert.ok(!logMessages.some((message) => message.includes('Minimizing')));
+  });
+
+  test('servers using too much memory should be recycled', async function () {
+    if (process.platform !== 'linux') {
+      this.skip();
+    }
+    await startProxy(
+      {
+        'textDocument/hover': { result: { contents: 'fn main()' } },
+      },
+      { memoryMonitor: { thresholdBytes: 1, intervalMs: 100 } },
+    );
+    const published: any[] = [];
+    connection.onNotification('textDocument/publishDiagnostics', (params) =>
+      published.push(params),
+    );
+    const recycled = new Promise<LSPRecycleParams>((resolve) =>
+      connection.onNotification('mojo/lspRecycle', resolve),
+    );
+
+    assert.match((await recycled).reason, /memory/);
+    const hover = await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(hover, { contents: 'fn main()' });
+    // Recycling is not a crash.
+    assert.deepStrictEqual(published, []);
+    assert.deepStrictEqual(serverStates, []);
+  });
+
+  test('rapid changes should be coalesced', async function () {
+    await startProxy(
+      {
+        'textDocument/didChange': { echo: true },
+        'textDocument/hover': { result: null },
+      },
+      { changeCoalescing: { windowMs: 60 * 1000 } },
+    );
+    const receivedChanges: any[] = [];
+    connection.onNotification('window/logMessage', (params) =>
+      receivedChanges.push(JSON.parse(params.message)),
+    );
+
+    for (const [version, character] of [
+      [2, 4],
+      [3, 5],
+      [4, 6],
+    ]) {
+      connection.sendNotification('textDocument/didChange', {
+        textDocument: { uri: documentUri, version },
+        contentChanges: [
+          {
+            range: {
+              start: { line: 1, character },
+              end: { line: 1, character },
+            },
+            text: '!',
+          },
+        ],
+      });
+    }
+    // The pending changes are flushed before the request, even though the
+    // window hasn't elapsed.
+    await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(receivedChanges, [
+      {
+        textDocument: { uri: documentUri, version: 4 },
+        contentChanges: [4, 5, 6].map((character) => ({
+          range: {
+            start: { line: 1, character },
+            end: { line: 1, character },
+          },
+          text: '!',
+        })),
+      },
+    ]);
+  });
+
+  test('responses for outdated documents should be dropped', async function () {
+    await startProxy({
+      'textDocument/completion': { result: [], delayMs: 200 },
+      'textDocument/definition': { result: [], delayMs: 200 },
+    });
+    const position = { line: 0, character: 3 };
+    const completion = connection.sendRequest('textDocument/completion', {
+      textDocument: { uri: documentUri },
+      position,
+    });
+    const definition = connection.sendRequest('textDocument/definition', {
+      textDocument: { uri: documentUri },
+      position,
+    });
+    connection.sendNotification('textDocument/didChange', {
+      textDocument: { uri: documentUri, version: 2 },
+      contentChanges: [{ text: 'fn main():\n    return\n' }],
+    });
+
+    await assert.rejects(completion, (error: ResponseError<any>) => {
+      assert.strictEqual(error.code, -32801);
+      return true;
+    });
+    // Results that aren't tied to a document version are still delivered.
+    assert.deepStrictEqual(await definition, []);
+  });
+
+  test('command line flags should be used without initialization options', async function () {
+    proxyProcess = fork(
+      proxyPath,
+      [
+        '--stdio',
+        '--server-path',
+        process.execPath,
+        ...getFakeServerArgs({
+          'textDocument/hover': { result: { contents: 'fn main()' } },
+        }).flatMap((arg) => ['--server-arg', arg]),
+        '--env',
+        'ELECTRON_RUN_AS_NODE=1',
+      ],
+      { silent: true },
+    );
+    connection = createMessageConnection(
+      new StreamMessageReader(proxyProcess.stdout!),
+      new StreamMessageWriter(proxyProcess.stdin!),
+    );
+    connection.listen();
+
+    await connection.sendRequest('initialize', {
+      processId: process.pid,
+      rootUri: null,
+      capabilities: {},
+    });
+    connection.sendNotification('initialized', {});
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: documentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn main():\n    pass\n',
+      },
+    });
+
+    const hover = await connection.sendRequest('textDocument/hover', {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.deepStrictEqual(hover, { contents: 'fn main()' });
+  });
+
+  test('documents should be routed to the server of their workspace folder', async function () {
+    const folderUri = 'file:///fake/lib';
+    const libDocumentUri = `${folderUri}/lib.mojo`;
+    await startProxy(
+      { 'textDocument/hover': { exitCode: 1 } },
+      {
+        workspaceFolderOptions: [
+          {
+            uri: folderUri,
+            serverArgs: getFakeServerArgs({
+              'textDocument/hover': { result: { contents: 'fn lib()' } },
+            }),
+          },
+        ],
+      },
+      {
+        workspaceFolders: [
+          { uri: 'file:///fake', name: 'fake' },
+          { uri: folderUri, name: 'lib' },
+        ],
+      },
+    );
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: libDocumentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn lib():\n    pass\n',
+      },
+    });
+    const hover = (uri: string) =>
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri },
+        position: { line: 0, character: 3 },
+      });
+
+    assert.deepStrictEqual(await hover(libDocumentUri), {
+      contents: 'fn lib()',
+    });
+    // Crashes of one server don't affect the servers of other folders.
+    const running = waitForServerState('running');
+    await assert.rejects(hover(documentUri), /crashed/);
+    await running;
+    const statesOf = (workspaceFolder: string) =>
+      serverStates
+        .filter((params) => params.workspaceFolder === workspaceFolder)
+        .map((params) => params.state);
+    assert.deepStrictEqual(statesOf('file:///fake'), ['restarting', 'running']);
+    assert.deepStrictEqual(statesOf(folderUri), ['starting', 'running']);
+    assert.deepStrictEqual(await hover(libDocumentUri), {
+      contents: 'fn lib()',
+    });
+  });
+
+  test('servers exiting on their own should be relaunched', async function () {
+    const folderUri = 'file:///fake/lib';
+    const libDocumentUri = `${folderUri}/lib.mojo`;
+    await startProxy(
+      { 'textDocument/hover': { result: { contents: 'fn main()' } } },
+      {
+        workspaceFolderOptions: [
+          {
+            uri: folderUri,
+            serverArgs: getFakeServerArgs({
+              'textDocument/hover': { exitCode: 0 },
+            }),
+          },
+        ],
+      },
+      {
+        workspaceFolders: [
+          { uri: 'file:///fake', name: 'fake' },
+          { uri: folderUri, name: 'lib' },
+        ],
+      },
+    );
+    let restarted = false;
+    connection.onNotification('mojo/lspRestart', () => (restarted = true));
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: libDocumentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn lib():\n    pass\n',
+      },
+    });
+    const hover = (uri: string) =>
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri },
+        position: { line: 0, character: 3 },
+      });
+
+    // The proxy and the servers of other folders keep running.
+    await waitForServerState('running');
+    const running = waitForServerState('running');
+    await assert.rejects(hover(libDocumentUri), /stopped/);
+    await running;
+    assert.deepStrictEqual(
+      serverStates
+        .filter((params) => params.workspaceFolder === folderUri)
+        .map((params) => params.state),
+      ['starting', 'running', 'restarting', 'reopeningDocuments', 'running'],
+    );
+    assert.deepStrictEqual(await hover(documentUri), {
+      contents: 'fn main()',
+    });
+    assert.strictEqual(restarted, false);
+  });
+
+  test('follow-up requests should be sent to the server of their item', async function () {
+    const folderUri = 'file:///fake/lib';
+    const libDocumentUri = `${folderUri}/lib.mojo`;
+    const createScript = (name: string, uri: string): FakeServerScript => ({
+      initialize: {
+        result: {
+          capabilities: {
+            completionProvider: { resolveProvider: true },
+            workspaceSymbolProvider: true,
+          },
+        },
+      },
+      'textDocument/completion': { result: [{ label: name, data: name }] },
+      'completionItem/resolve': { result: { label: name, detail: name } },
+      'workspace/symbol': {
+        result: [{ name, kind: 12, location: { uri } }],
+      },
+    });
+    await startProxy(
+      createScript('main', documentUri),
+      {
+        workspaceFolderOptions: [
+          {
+            uri: folderUri,
+            serverArgs: getFakeServerArgs(createScript('lib', libDocumentUri)),
+          },
+        ],
+      },
+      {
+        workspaceFolders: [
+          { uri: 'file:///fake', name: 'fake' },
+          { uri: folderUri, name: 'lib' },
+        ],
+      },
+    );
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: libDocumentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn lib():\n    pass\n',
+      },
+    });
+
+    const [item]: any[] = await connection.sendRequest(
+      'textDocument/completion',
+      {
+        textDocument: { uri: libDocumentUri },
+        position: { line: 0, character: 3 },
+      },
+    );
+    assert.strictEqual(item.label, 'lib');
+    const resolved: any = await connection.sendRequest(
+      'completionItem/resolve',
+      item,
+    );
+    assert.strictEqual(resolved.detail, 'lib');
+
+    // Workspace symbols are searched in every folder.
+    const symbols: any[] = await connection.sendRequest('workspace/symbol', {
+      query: '',
+    });
+    assert.deepStrictEqual(
+      symbols.map((symbol) => symbol.name),
+      ['main', 'lib'],
+    );
+  });
+
+  test('completion items inheriting their data should be resolved by their server', async function () {
+    const folderUri = 'file:///fake/lib';
+    const libDocumentUri = `${folderUri}/lib.mojo`;
+    const createScript = (name: string): FakeServerScript => ({
+      initialize: {
+        result: {
+          capabilities: { completionProvider: { resolveProvider: true } },
+        },
+      },
+      'textDocument/completion': {
+        result: {
+          isIncomplete: false,
+          itemDefaults: { data: name },
+          items: [{ label: name }],
+        },
+      },
+      'completionItem/resolve': { result: { label: name, detail: name } },
+    });
+    await startProxy(
+      createScript('main'),
+      {
+        workspaceFolderOptions: [
+          {
+            uri: folderUri,
+            serverArgs: getFakeServerArgs(createScript('lib')),
+          },
+        ],
+      },
+      {
+        workspaceFolders: [
+          { uri: 'file:///fake', name: 'fake' },
+          { uri: folderUri, name: 'lib' },
+        ],
+      },
+    );
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: libDocumentUri,
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn lib():\n    pass\n',
+      },
+    });
+
+    const list: any = await connection.sendRequest('textDocument/completion', {
+      textDocument: { uri: libDocumentUri },
+      position: { line: 0, character: 3 },
+    });
+    assert.strictEqual(list.items[0].data, undefined);
+    // The client fills in the data of the items from the defaults.
+    const resolved: any = await connection.sendRequest(
+      'completionItem/resolve',
+      { ...list.items[0], data: list.itemDefaults.data },
+    );
+    assert.strictEqual(resolved.detail, 'lib');
+  });
+
+  test('workspace symbols should be searched in folders without open documents', async function () {
+    const folderUri = 'file:///fake/lib';
+    const createScript = (name: string, uri: string): FakeServerScript => ({
+      initialize: {
+        result: { capabilities: { workspaceSymbolProvider: true } },
+      },
+      'workspace/symbol': {
+        result: [{ name, kind: 12, location: { uri } }],
+      },
+    });
+    await startProxy(
+      createScript('main', documentUri),
+      {
+        workspaceFolderOptions: [
+          {
+            uri: folderUri,
+            serverArgs: getFakeServerArgs(
+              createScript('lib', `${folderUri}/lib.mojo`),
+            ),
+          },
+        ],
+      },
+      {
+        workspaceFolders: [
+          { uri: 'file:///fake', name: 'fake' },
+          { uri: folderUri, name: 'lib' },
+        ],
+      },
+    );
+
+    // The server of the second folder is launched for the request.
+    const symbols: any[] = await connection.sendRequest('workspace/symbol', {
+      query: '',
+    });
+    assert.deepStrictEqual(
+      symbols.map((symbol) => symbol.name),
+      ['main', 'lib'],
+    );
+  });
+
+  test('crash backtraces should be reported as a single message', async function () {
+    const backtrace = [
+      'PLEASE submit a bug report to https://github.com/modular/modular/issues and include the crash backtrace.',
+      'Stack dump:',
+      '0.\tProgram arguments: mojo-lsp-server',
+      '#0 0x000055d2f1c0a1bb llvm::sys::PrintStackTrace(llvm::raw_ostream&, int) (/opt/mojo/bin/mojo-lsp-server+0x1a1bb)',
+      '#1 0x00007f0c2a642520 __restore_rt (/lib/x86_64-linux-gnu/libc.so.6+0x42520)',
+      '#2 0x000055d2f1d0b2cc mojo::lsp::Document::parse() (/opt/mojo/bin/mojo-lsp-server+0x11b2cc)',
+      '#3 0x000055d2f1d0c3dd mojo::lsp::Server::onHover(int) (/opt/mojo/bin/mojo-lsp-server+0x11c3dd)',
+    ].join('\n');
+    await startProxy({
+      'textDocument/hover': {
+        stderr: `E[12:00:00.000] Couldn't resolve import\n${backtrace}\n`,
+        exitCode: 1,
+      },
+    });
+    const messages: { type: number; message: string }[] = [];
+    connection.onNotification(
+      'window/logMessage',
+      (params: { type: number; message: string }) => messages.push(params),
+    );
+    const restarted = new Promise<LSPRestartParams>((resolve) =>
+      connection.onNotification('mojo/lspRestart', resolve),
+    );
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      /crashed/,
+    );
+    assert.deepStrictEqual((await restarted).backtrace, {
+      text: backtrace,
+      signature:
+        'mojo::lsp::Document::parse() < mojo::lsp::Server::onHover(int)',
+    });
+    // Both are logged as errors.
+    const errors = messages
+      .filter((params) => params.type === 1)
+      .map((params) => params.message);
+    assert.ok(errors.includes("E[12:00:00.000] Couldn't resolve import"));
+    assert.ok(errors.includes(backtrace));
+  });
+
+  test('crash signatures should not contain paths', async function () {
+    await startProxy({
+      'textDocument/hover': {
+        stderr:
+          'mojo-lsp-server: /home/me/llvm/Parser.cpp:42: void parse(): ' +
+          "Assertion `ok' failed.\n" +
+          'LLVM ERROR: cannot import file:///home/me/secret.mojo\n',
+        exitCode: 1,
+      },
+    });
+    const restarted = new Promise<LSPRestartParams>((resolve) =>
+      connection.onNotification('mojo/lspRestart', resolve),
+    );
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+    );
+    assert.strictEqual(
+      (await restarted).backtrace?.signature,
+      "mojo-lsp-server: <path>:42: void parse(): Assertion `ok' failed.",
+    );
+  });
+
+  test('progress should be reported while restarting', async function () {
+    await startProxy(
+      { 'textDocument/hover': { exitCode: 1 } },
+      {},
+      { capabilities: { window: { workDoneProgress: true } } },
+    );
+    connection.sendNotification('textDocument/didOpen', {
+      textDocument: {
+        uri: 'file:///fake/other.mojo',
+        languageId: 'mojo',
+        version: 1,
+        text: 'fn other():\n    pass\n',
+      },
+    });
+    connection.onRequest('window/workDoneProgress/create', () => null);
+    const progress: { kind: string; title?: string; message?: string }[] = [];
+    connection.onUnhandledProgress((params) => progress.push(params.value));
+    const running = waitForServerState('running');
+
+    await assert.rejects(
+      connection.sendRequest('textDocument/hover', {
+        textDocument: { uri: documentUri },
+        position: { line: 0, character: 3 },
+      }),
+      /crashed/,
+    );
+    await running;
+    // Only the document that didn't crash the server is reopened.
+    assert.deepStrictEqual(
+      serverStates.map((params) => params.state),
+      ['restarting', 'reopeningDocuments', 'running'],
+    );
+    assert.deepStrictEqual(progress, [
+      { kind: 'begin', title: 'Restarting the Mojo Language Server' },
+      { kind: 'report', message: 'Reopening 1 document' },
+      { kind: 'end' },
+    ]);
+  });
+
+  test('expensive requests on large documents should be answered locally', async function () {
+    const ranges = [{ startLine: 0, endLine: 1 }];
+    await startProxy(
+      { 'textDocument/foldingRange': { result: ranges } },
+      { largeFile: { maxLines: 1 } },
+    );
+    const largeFileMode = new Promise((resolve) =>
+      connection.onNotification('mojo/largeFileMode', resolve),
+    );
+    const params = { textDocument: { uri: documentUri } };
+
+    assert.deepStrictEqual(
+      await connection.sendRequest('textDocument/foldingRange', params),
+      [],
+    );
+    assert.deepStrictEqual(await largeFileMode, {
+      uri: documentUri,
+      lineCount: 3,
+      byteCount: 20,
+    });
+    // Other requests still reach the server.
+    await connection.sendRequest('textDocument/hover', {
+      ...params,
+      position: { line: 0, character: 3 },
+    });
+
+    connection.sendNotification('mojo/enableLargeFileFeatures', {
+      uri: documentUri,
+    });
+    assert.deepStrictEqual(
+      await connection.sendRequest('textDocument/foldingRange', params),
+      ranges,
+    );
+  });
+
+  test('read-only requests should be sent to the least busy server', async function () {
+    await startProxy(
+      {
+        'textDocument/references': { busy: true },
+        'textDocument/hover': { result: { contents: 'fn main()' } },
+      },
+      { secondaryServer: true },
+    );
+    const params = {
+      textDocument: { uri: documentUri },
+      position: { line: 0, character: 3 },
+    };
+    // The secondary server only gets requests once it's initialized.
+    const initializedCount = async () => {
+      const stats: ProxyStats = await connection.sendRequest(
+        'mojo/proxyStats',
+        {},
+      );
+      return stats.methods.find(({ method }) => method === 'initialize')?.count;
+    };
+    while ((await initializedCount()) !== 2) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    // This keeps one of the servers busy for good.
+    connection
+      .sendRequest('textDocument/references', {
+        ...params,
+        context: { includeDeclaration: true },
+      })
+      .catch(() => {});
+
+    assert.deepStrictEqual(
+      await connection.sendRequest('textDocument/hover', params),
+      { contents: 'fn main()' },
+    );
+  });
+
+  test('recordings should be replayed and diffed', async function () {
+    const recordingPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'mojo-lsp-replay-')),
+      'mojo-lsp-recording.jsonl',
+    );
+    const position = { line: 0, character: 3 };
+    const messages: RecordedMessage[] = [
+      {
+        kind: 'notification',
+        direction: 'clientToServer',
+        timeMs: 0,
+        method: 'textDocument/didOpen',
+        params: {
+          textDocument: {
+            uri: documentUri,
+            languageId: 'mojo',
+            version: 1,
+            text: 'fn main():\n    pass\n',
+          },
+        },
+      },
+      {
+        kind: 'request',
+        direction: 'clientToServer',
+        timeMs: 1,
+        id: 1,
+        method: 'textDocument/hover',
+        params: { textDocument: { uri: documentUri }, position },
+      },
+      {
+        kind: 'response',
+        direction: 'serverToClient',
+        timeMs: 2,
+        id: 1,
+        method: 'textDocument/hover',
+        result: { contents: 'fn main() -> None' },
+        durationMs: 1,
+      },
+      {
+        kind: 'request',
+        direction: 'clientToServer',
+        timeMs: 3,
+        id: 2,
+        method: 'textDocument/definition',
+        params: { textDocument: { uri: documentUri }, position },
+      },
+      {
+        kind: 'response',
+        direction: 'serverToClient',
+        timeMs: 4,
+        id: 2,
+        method: 'textDocument/definition',
+        result: null,
+        durationMs: 1,
+      },
+    ];
+    fs.writeFileSync(
+      recordingPath,
+      [
+        { kind: 'header', formatVersion: 2, extensionVersion: '0.0.0' },
+        ...messages,
+      ]
+        .map((entry) => JSON.stringify(entry))
+        .join('\n'),
+    );
+
+    const script: FakeServerScript = {
+      'textDocument/hover': { result: { contents: 'fn main()' } },
+    };
+    const replayProcess = fork(
+      replayPath,
+      [
+        recordingPath,
+        '--json',
+        '--server-path',
+        process.execPath,
+        ...getFakeServerArgs(script).map((arg) => `--server-arg=${arg}`),
+        '--env=ELECTRON_RUN_AS_NODE=1',
+      ],
+      { silent: true },
+    );
+    let stdout = '';
+    replayProcess.stdout!.on('data', (data) => (stdout += data));
+    const exitCode = await new Promise((resolve) =>
+      replayProcess.on('close', resolve),
+    );
+
+    const report: ReplayReport = JSON.parse(stdout);
+    assert.strictEqual(exitCode, 1);
+    assert.strictEqual(report.crash, undefined);
+    assert.deepStrictEqual(report.timeouts, []);
+    assert.strictEqual(report.comparedCount, 2);
+    assert.deepStrictEqual(report.differences, [
+      {
+        id: 1,
+        method: 'textDocument/hover',
+        recorded: { result: { contents: 'fn main() -> None' } },
+        actual: { result: { contents: 'fn main()' } },
+      },
+    ]);
+  });
+
+  test('replays should reject unknown flags', async function () {
+    const replay = async (args: string[]) => {
+      const replayProcess = fork(
+        replayPath,
+        ['mojo-lsp-recording.jsonl', ...args],
+        { silent: true },
+      );
+      let stderr = '';
+      replayProcess.stderr!.on('data', (data) => (stderr += data));
+      const exitCode = await new Promise((resolve) =>
+        replayProcess.on('close', resolve),
+      );
+      return { exitCode, stderr };
+    };
+
+    const { exitCode, stderr } = await replay(['--timeout-msfoo', '5']);
+    assert.strictEqual(exitCode, 2);
+    assert.match(stderr, /Unknown flag --timeout-msfoo/);
+    assert.match(
+      (await replay(['--timeout-ms=0'])).stderr,
+      /Expected a positive number for --timeout-ms/,
+    );
+  });
+});
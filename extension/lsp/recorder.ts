@@ -13,26 +13,151 @@
 
 import { DisposableContext } from '../utils/disposableContext';
 import * as vscode from 'vscode';
-import { MessageSignature, CancellationToken } from 'vscode-languageclient';
+import {
+  MessageSignature,
+  CancellationToken,
+  Message,
+  ResponseError,
+} from 'vscode-languageclient';
 import { createWriteStream, WriteStream } from 'fs';
+import { Optional } from '../types';
+import { RecordingRedactor } from './redactor';
 
+/**
+ * The version of the recording format. Version 1 recordings only contain the
+ * requests and notifications sent by the client, without a header.
+ */
+export const recordingFormatVersion = 2;
+
+/**
+ * The first line of a recording, describing the session it was taken from.
+ */
+export interface RecordingHeader {
+  kind: 'header';
+  formatVersion: number;
+  /**
+   * The wall-clock time the recording started at, as an ISO string. The
+   * timestamps of the messages are relative to it.
+   */
+  startTime: string;
+  extensionVersion: string;
+  sdkVersion?: string;
+  sdkKind?: string;
+  serverPath?: string;
+  serverArgs?: string[];
+  /**
+   * Whether identifiers, string literals and comments were redacted.
+   */
+  redacted?: boolean;
+}
+
+/**
+ * A message exchanged with the language server. Requests sent by the client
+ * are followed by a response with the same id once they complete.
+ */
+export interface RecordedMessage {
+  kind: 'request' | 'response' | 'notification';
+  /**
+   * Whether the message was sent by the client or by the server.
+   */
+  direction: 'clientToServer' | 'serverToClient';
+  /**
+   * Milliseconds since the start of the recording, from a monotonic clock.
+   */
+  timeMs: number;
+  /**
+   * The id of a request or of the request a response belongs to. Requests
+   * sent by the client are numbered by the recorder, while requests sent by
+   * the server keep their JSON-RPC id, so a response is matched with its
+   * request by both id and direction.
+   */
+  id?: number | string;
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+  /**
+   * The time between a request and its response.
+   */
+  durationMs?: number;
+}
+
+/**
+ * The session details that go in the header of a recording, besides the ones
+ * known by the recorder.
+ */
+export type RecordingSession = Omit<
+  RecordingHeader,
+  'kind' | 'formatVersion' | 'startTime' | 'redacted'
+>;
+
+/**
+ * Class that records the messages exchanged with the language server to a JSON
+ * lines file: a header followed by one line per message.
+ */
 export class LSPRecorder extends DisposableContext {
   private output: WriteStream;
+  /**
+   * Whether the output was closed. The responses to requests still in flight
+   * when the recording stops aren't recorded.
+   */
+  private closed = false;
+  private startTimeMs = performance.now();
+  private lastRequestId = 0;
+  /**
+   * The requests sent by the server that the client didn't respond to yet,
+   * along with when they were received.
+   */
+  private pendingServerRequests = new Map<
+    number | string,
+    { method: string; timeMs: number }
+  >();
+  /**
+   * Redacts the recorded messages, if enabled.
+   */
+  private redactor: Optional<RecordingRedactor>;
 
-  constructor(outPath: string) {
+  constructor(outPath: string, session: RecordingSession, redact: boolean) {
     super();
 
     this.output = createWriteStream(outPath);
+    this.redactor = redact ? new RecordingRedactor() : undefined;
+    this.write({
+      kind: 'header',
+      formatVersion: recordingFormatVersion,
+      startTime: new Date().toISOString(),
+      ...session,
+      redacted: redact,
+    });
 
     this.pushSubscription(
       new vscode.Disposable(() => {
+        this.closed = true;
         this.output.close();
       }),
     );
   }
 
+  private write(entry: RecordingHeader | RecordedMessage) {
+    if (this.closed) {
+      return;
+    }
+    if (entry.kind !== 'header' && this.redactor !== undefined) {
+      entry = this.redactor.redactMessage(entry);
+    }
+    this.output.write(JSON.stringify(entry));
+    this.output.write('\n');
+  }
+
+  /**
+   * @returns the milliseconds elapsed since the start of the recording.
+   */
+  private now(): number {
+    return performance.now() - this.startTimeMs;
+  }
+
   // Follows GeneralMiddleware implementation from vscode-languageclient.
-  public sendRequest<P, R>(
+  public async sendRequest<P, R>(
     type: string | MessageSignature,
     param: P | undefined,
     token: CancellationToken | undefined,
@@ -42,15 +167,43 @@ export class LSPRecorder extends DisposableContext {
       token?: CancellationToken,
     ) => Promise<R>,
   ): Promise<R> {
-    const message = {
-      type: 'request',
-      method: type,
-      param: param,
-    };
+    const id = ++this.lastRequestId;
+    const method = getMethod(type);
+    const startTimeMs = this.now();
+    this.write({
+      kind: 'request',
+      direction: 'clientToServer',
+      timeMs: startTimeMs,
+      id,
+      method,
+      params: param,
+    });
 
-    this.output.write(JSON.stringify(message));
-    this.output.write('\n');
-    return next(type, param, token);
+    const writeResponse = (response: Partial<RecordedMessage>) => {
+      const timeMs = this.now();
+      this.write({
+        kind: 'response',
+        direction: 'serverToClient',
+        timeMs,
+        id,
+        method,
+        durationMs: timeMs - startTimeMs,
+        ...response,
+      });
+    };
+    try {
+      const result = await next(type, param, token);
+      writeResponse({ result });
+      return result;
+    } catch (e) {
+      writeResponse({
+        error:
+          e instanceof ResponseError
+            ? { code: e.code, message: e.message, data: e.data }
+            : { code: 0, message: `${e}` },
+      });
+      throw e;
+    }
   }
 
   public sendNotification<P>(
@@ -58,14 +211,78 @@ export class LSPRecorder extends DisposableContext {
     next: (type: string | MessageSignature, params?: P) => Promise<void>,
     param: P,
   ): Promise<void> {
-    const message = {
-      type: 'notification',
-      method: type,
-      param: param,
-    };
-
-    this.output.write(JSON.stringify(message));
-    this.output.write('\n');
+    this.write({
+      kind: 'notification',
+      direction: 'clientToServer',
+      timeMs: this.now(),
+      method: getMethod(type),
+      params: param,
+    });
     return next(type, param);
   }
+
+  // Follows the MessageStrategy interface from vscode-jsonrpc. Responses to
+  // the requests of the client are already recorded by `sendRequest`.
+  public handleMessage(message: Message, next: (message: Message) => void) {
+    let id: Optional<number | string>;
+    if (Message.isRequest(message)) {
+      id = message.id ?? undefined;
+    }
+    if (Message.isRequest(message) || Message.isNotification(message)) {
+      const timeMs = this.now();
+      if (id !== undefined) {
+        this.pendingServerRequests.set(id, { method: message.method, timeMs });
+      }
+      this.write({
+        kind: id !== undefined ? 'request' : 'notification',
+        direction: 'serverToClient',
+        timeMs,
+        id,
+        method: message.method,
+        params: message.params,
+      });
+    }
+    next(message);
+  }
+
+  /**
+   * Record a message about to be sent to the server, if it's the response to
+   * a request of the server. The other messages sent by the client are
+   * recorded by `sendRequest` and `sendNotification`.
+   */
+  public handleOutgoingMessage(message: Message) {
+    if (!Message.isResponse(message) || message.id === null) {
+      return;
+    }
+    const request = this.pendingServerRequests.get(message.id);
+    if (request === undefined) {
+      return;
+    }
+    this.pendingServerRequests.delete(message.id);
+    const timeMs = this.now();
+    this.write({
+      kind: 'response',
+      direction: 'clientToServer',
+      timeMs,
+      id: message.id,
+      method: request.method,
+      durationMs: timeMs - request.timeMs,
+      ...(message.error !== undefined
+        ? {
+            error: {
+              code: message.error.code,
+              message: message.error.message,
+              data: message.error.data,
+            },
+          }
+        : { result: message.result ?? null }),
+    });
+  }
+}
+
+/**
+ * @returns the LSP method of the given message type.
+ */
+function getMethod(type: string | MessageSignature): string {
+  return typeof type === 'string' ? type : type.method;
 }
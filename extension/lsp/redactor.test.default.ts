@@ -0,0 +1,182 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as assert from 'assert';
+import { RecordingRedactor, redactRecording } from './redactor';
+
+/**
+ * @returns the given text with the given change applied, as done by the
+ *     server for an incremental `textDocument/didChange`.
+ */
+function applyChange(
+  text: string,
+  change: {
+    range: {
+      start: { line: number; character: number };
+      end: { line: number; character: number };
+    };
+    text: string;
+  },
+): string {
+  const lines = text.split('\n');
+  const { start, end } = change.range;
+  return (
+    lines.slice(0, start.line).join('\n') +
+    (start.line > 0 ? '\n' : '') +
+    lines[start.line].slice(0, start.character) +
+    change.text +
+    lines[end.line].slice(end.character) +
+    (end.line < lines.length - 1 ? '\n' : '') +
+    lines.slice(end.line + 1).join('\n')
+  );
+}
+
+suite('Recording redaction', () => {
+  test('source code should be redacted with stable pseudonyms', () => {
+    const redactor = new RecordingRedactor();
+    const source = [
+      'from secret import Widget',
+      '',
+      '# Computes the secret sauce.',
+      'fn sauce(_count: Int) -> String:',
+      '    var w = Widget(_count, 0xFF)',
+      '    return "ketchup" + w.name',
+    ].join('\n');
+    const redacted = redactor.redactSource(source);
+    const lines = redacted.split('\n');
+
+    assert.strictEqual(redacted.length, source.length);
+    assert.deepStrictEqual(
+      lines.map((line) => line.length),
+      source.split('\n').map((line) => line.length),
+    );
+    for (const word of ['secret', 'Widget', 'sauce', 'ketchup', 'name']) {
+      assert.ok(!redacted.includes(word), `'${word}' wasn't redacted`);
+    }
+    assert.strictEqual(lines[2], '# xxxxxxxx xxx xxxxxx xxxxxx');
+    assert.match(lines[3], /^fn [a-z]{5}\(_[a-z]{5}: Int\) -> String:$/);
+    assert.match(
+      lines[4],
+      /^ {4}var [a-z] = [A-Z][a-z]{5}\(_[a-z]{5}, 0xFF\)$/,
+    );
+    assert.match(lines[5], /^ {4}return "xxxxxxx" \+ [a-z]\.[a-z]{4}$/);
+
+    // The same identifiers get the same pseudonyms, including in free text.
+    const pseudonym = lines[0].split(' ')[3];
+    assert.ok(lines[4].includes(`${pseudonym}(`));
+    assert.strictEqual(
+      redactor.redactWords("'Widget' in 42"),
+      `'${pseudonym}' in 42`,
+    );
+  });
+
+  test('incremental changes should match the redacted document', () => {
+    const redactor = new RecordingRedactor();
+    const uri = 'file:///home/me/project/secret.mojo';
+    let original = 'fn main():\n    print("hi")\n';
+    const opened = redactor.redactParams('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'mojo', version: 1, text: original },
+    });
+    assert.match(opened.textDocument.uri, /^file:\/\/\/[a-z]{4}\/[a-z]{2}\//);
+    assert.ok(opened.textDocument.uri.endsWith('.mojo'));
+    let redacted: string = opened.textDocument.text;
+
+    const changes = [
+      {
+        range: {
+          start: { line: 1, character: 4 },
+          end: { line: 1, character: 15 },
+        },
+        text: 'var total = helper(1)\n    print(total)',
+      },
+      {
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 0 },
+        },
+        text: '"""Docs\nabout helper."""\n',
+      },
+    ];
+    for (const change of changes) {
+      original = applyChange(original, change);
+      const changed = redactor.redactParams('textDocument/didChange', {
+        textDocument: { uri, version: 2 },
+        contentChanges: [change],
+      });
+      assert.strictEqual(changed.textDocument.uri, opened.textDocument.uri);
+      for (const redactedChange of changed.contentChanges) {
+        redacted = applyChange(redacted, redactedChange);
+      }
+      assert.strictEqual(redacted, redactor.redactSource(original));
+      assert.strictEqual(redacted.length, original.length);
+      assert.ok(!redacted.includes('helper'));
+      assert.ok(!redacted.includes('total'));
+    }
+    // The docstring is masked as a whole, even though it was added after the
+    // code that follows it.
+    assert.ok(redacted.startsWith('"""xxxx\nxxxxx xxxxxxx"""\n'));
+  });
+
+  test('existing recordings should be redacted', () => {
+    const recording = [
+      JSON.stringify({ kind: 'header', formatVersion: 2, startTime: 'now' }),
+      JSON.stringify({
+        kind: 'request',
+        direction: 'clientToServer',
+        timeMs: 1,
+        id: 1,
+        method: 'textDocument/hover',
+        params: {
+          textDocument: { uri: 'file:///secret.mojo' },
+          position: { line: 0, character: 3 },
+        },
+      }),
+      JSON.stringify({
+        kind: 'response',
+        direction: 'serverToClient',
+        timeMs: 2,
+        id: 1,
+        method: 'textDocument/hover',
+        result: { contents: { kind: 'markdown', value: 'fn secret()' } },
+      }),
+      JSON.stringify({
+        type: 'notification',
+        method: 'textDocument/didOpen',
+        param: {
+          textDocument: {
+            uri: 'file:///secret.mojo',
+            languageId: 'mojo',
+            version: 1,
+            text: 'fn secret(): pass',
+          },
+        },
+      }),
+    ].join('\n');
+
+    const [header, request, response, notification] = redactRecording(recording)
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    assert.strictEqual(header.redacted, true);
+    assert.deepStrictEqual(request.params.position, { line: 0, character: 3 });
+    const uri = request.params.textDocument.uri;
+    assert.match(uri, /^file:\/\/\/[a-z]{6}\.mojo$/);
+    assert.strictEqual(response.result.contents.kind, 'markdown');
+    const pseudonym = response.result.contents.value.slice(3, 9);
+    assert.strictEqual(response.result.contents.value, `fn ${pseudonym}()`);
+    assert.strictEqual(notification.param.textDocument.uri, uri);
+    assert.strictEqual(
+      notification.param.textDocument.text,
+      `fn ${pseudonym}(): pass`,
+    );
+  });
+});
@@ -0,0 +1,535 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { Optional } from '../types';
+import { RecordedMessage } from './recorder';
+
+/**
+ * The words that are kept as is, so that redacted code still parses the same
+ * way: the keywords of Mojo and the most common builtins.
+ */
+const keptWords = new Set([
+  'alias',
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'borrowed',
+  'break',
+  'class',
+  'comptime',
+  'continue',
+  'def',
+  'deinit',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'False',
+  'finally',
+  'fn',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'inout',
+  'is',
+  'lambda',
+  'let',
+  'mut',
+  'None',
+  'nonlocal',
+  'not',
+  'or',
+  'out',
+  'owned',
+  'pass',
+  'raise',
+  'raises',
+  'read',
+  'ref',
+  'return',
+  'self',
+  'Self',
+  'struct',
+  'trait',
+  'True',
+  'try',
+  'var',
+  'while',
+  'with',
+  'yield',
+  'Bool',
+  'Float32',
+  'Float64',
+  'Int',
+  'List',
+  'Dict',
+  'String',
+  'UInt',
+  'len',
+  'print',
+  'range',
+]);
+
+/**
+ * The prefixes that can precede a string literal, e.g. `r"..."`.
+ */
+const stringPrefixes = new Set(['b', 'br', 'f', 'fr', 'r', 'rb', 'rf', 'u']);
+
+/**
+ * The keys of the free-text values of requests, responses and notifications
+ * other than document synchronization, e.g. hover contents or diagnostic
+ * messages. Their words are replaced by pseudonyms.
+ */
+const freeTextKeys = new Set([
+  'contents',
+  'detail',
+  'documentation',
+  'filterText',
+  'insertText',
+  'label',
+  'message',
+  'name',
+  'newName',
+  'newText',
+  'query',
+  'sortText',
+  'text',
+  'title',
+  'value',
+]);
+
+/**
+ * The keys of URI values, whose path segments are replaced by pseudonyms.
+ */
+const uriKeys = new Set(['uri', 'targetUri', 'rootUri', 'document']);
+
+const identifierPattern = /[A-Za-z_][A-Za-z0-9_]*/y;
+const wordPattern = /\b[A-Za-z_][A-Za-z0-9_]*\b/g;
+
+/**
+ * A position in a document, as in the LSP protocol.
+ */
+type Position = { line: number; character: number };
+
+/**
+ * A change to a document, as in `textDocument/didChange`.
+ */
+type ContentChange = {
+  range?: { start: Position; end: Position };
+  rangeLength?: number;
+  text: string;
+};
+
+/**
+ * @returns the offset of the given position in the given text. Characters are
+ *     counted in UTF-16 code units, as in the default LSP position encoding.
+ */
+function getOffset(text: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const lineEnd = text.indexOf('\n', offset);
+    if (lineEnd === -1) {
+      return text.length;
+    }
+    offset = lineEnd + 1;
+  }
+  return Math.min(offset + position.character, text.length);
+}
+
+/**
+ * @returns the given text with every character but whitespace replaced, which
+ *     preserves its lines and offsets.
+ */
+function maskText(text: string): string {
+  return text.replace(/\S/g, 'x');
+}
+
+/**
+ * Class that redacts the messages of a session recording: identifiers are
+ * replaced by pseudonyms, and string literals and comments are masked. The
+ * pseudonyms are stable across all the documents and messages of a session
+ * and have the same length as the original identifiers, so that the redacted
+ * session stays replayable with the same positions.
+ */
+export class RecordingRedactor {
+  private pseudonyms = new Map<string, string>();
+  private usedPseudonyms = new Set<string>(keptWords);
+  /**
+   * The number of pseudonyms generated for each identifier length.
+   */
+  private pseudonymCounts = new Map<number, number>();
+  /**
+   * The original contents of the open documents, given by their URI, which
+   * are needed to redact incremental changes.
+   */
+  private uriToText = new Map<string, string>();
+
+  /**
+   * @returns the pseudonym of the given identifier.
+   */
+  private getPseudonym(identifier: string): string {
+    if (keptWords.has(identifier)) {
+      return identifier;
+    }
+    const existing = this.pseudonyms.get(identifier);
+    if (existing !== undefined) {
+      return existing;
+    }
+    // Leading underscores and the case of the first letter are kept, as they
+    // carry meaning in Mojo, and the rest is a base-26 counter.
+    const prefix = identifier.match(/^_*/)![0];
+    const length = identifier.length - prefix.length;
+    const capitalize = /^[A-Z]/.test(identifier.slice(prefix.length));
+    let pseudonym = identifier;
+    for (let attempt = 0; attempt < 26 ** Math.min(length, 4); attempt++) {
+      let count = this.pseudonymCounts.get(length) ?? 0;
+      this.pseudonymCounts.set(length, count + 1);
+      let letters = '';
+      for (let i = 0; i < length; i++) {
+        letters = String.fromCharCode(97 + (count % 26)) + letters;
+        count = Math.floor(count / 26);
+      }
+      if (capitalize) {
+        letters = letters[0].toUpperCase() + letters.slice(1);
+      }
+      if (!this.usedPseudonyms.has(prefix + letters)) {
+        pseudonym = prefix + letters;
+        break;
+      }
+    }
+    // Short identifiers might run out of pseudonyms, in which case they are
+    // shared.
+    if (pseudonym === identifier) {
+      pseudonym = prefix + 'x'.repeat(length);
+    }
+    this.usedPseudonyms.add(pseudonym);
+    this.pseudonyms.set(identifier, pseudonym);
+    return pseudonym;
+  }
+
+  /**
+   * @returns the given source code with its identifiers replaced by
+   *     pseudonyms and its string literals and comments masked.
+   */
+  public redactSource(text: string): string {
+    let result = '';
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '#') {
+        const lineEnd = text.indexOf('\n', i);
+        const end = lineEnd === -1 ? text.length : lineEnd;
+        result += '#' + maskText(text.slice(i + 1, end));
+        i = end;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        const quote = text.startsWith(char.repeat(3), i)
+          ? char.repeat(3)
+          : char;
+        let end = i + quote.length;
+        while (end < text.length && !text.startsWith(quote, end)) {
+          // Single-quoted strings end at the end of the line.
+          if (quote.length === 1 && text[end] === '\n') {
+            break;
+          }
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        end = Math.min(end, text.length);
+        const closed = text.startsWith(quote, end);
+        result +=
+          quote +
+          maskText(text.slice(i + quote.length, end)) +
+          (closed ? quote : '');
+        i = closed ? end + quote.length : end;
+        continue;
+      }
+      if (/[0-9]/.test(char)) {
+        // Numbers might contain letters, e.g. `0xFF` or `1e9`.
+        const number = text.slice(i).match(/^[0-9][0-9A-Za-z_.]*/)![0];
+        result += number;
+        i += number.length;
+        continue;
+      }
+      identifierPattern.lastIndex = i;
+      const identifier = identifierPattern.exec(text)?.[0];
+      if (identifier !== undefined) {
+        const next = text[i + identifier.length];
+        result +=
+          (next === '"' || next === "'") &&
+          stringPrefixes.has(identifier.toLowerCase())
+            ? identifier
+            : this.getPseudonym(identifier);
+        i += identifier.length;
+        continue;
+      }
+      result += char;
+      i++;
+    }
+    return result;
+  }
+
+  /**
+   * @returns the given text with its words replaced by pseudonyms, e.g. for
+   *     hover contents or diagnostic messages.
+   */
+  public redactWords(text: string): string {
+    return text.replace(wordPattern, (word) => this.getPseudonym(word));
+  }
+
+  /**
+   * @returns the given URI with the names of its path segments replaced by
+   *     pseudonyms. The scheme, the authority, the file extensions and the
+   *     query and fragment are kept.
+   */
+  public redactUri(uri: string): string {
+    const match = uri.match(/^([A-Za-z][\w+.-]*:(?:\/\/[^/]*)?)([^?#]*)(.*)$/);
+    if (match === null) {
+      return this.redactWords(uri);
+    }
+    const [, prefix, path, suffix] = match;
+    const redactedPath = path
+      .split('/')
+      .map((segment) => {
+        let name: string;
+        try {
+          name = decodeURIComponent(segment);
+        } catch {
+          name = segment;
+        }
+        const extension = name.match(/(\.[A-Za-z0-9]+|\.🔥)$/)?.[0] ?? '';
+        return encodeURIComponent(
+          this.redactWords(name.slice(0, name.length - extension.length)) +
+            extension,
+        );
+      })
+      .join('/');
+    return prefix + redactedPath + suffix;
+  }
+
+  /**
+   * Record the opening of a document and redact its contents.
+   */
+  private openDocument(uri: string, text: string): string {
+    this.uriToText.set(uri, text);
+    return this.redactSource(text);
+  }
+
+  /**
+   * Apply the given changes to a document and redact them. Incremental changes
+   * are widened to whole lines, so that the identifiers they touch are
+   * redacted with the same pseudonyms as in the rest of the session.
+   */
+  private changeDocument(
+    uri: string,
+    changes: ContentChange[],
+  ): ContentChange[] {
+    return changes.map((change) => {
+      const oldText = this.uriToText.get(uri);
+      if (change.range === undefined || oldText === undefined) {
+        this.uriToText.set(uri, change.text);
+        return { text: this.redactSource(change.text) };
+      }
+      const { start, end } = change.range;
+      const newText =
+        oldText.slice(0, getOffset(oldText, start)) +
+        change.text +
+        oldText.slice(getOffset(oldText, end));
+      this.uriToText.set(uri, newText);
+
+      // The whole document is redacted, as the change might be part of a
+      // string literal or a comment that spans several lines.
+      const oldLines = oldText.split('\n');
+      const newLines = this.redactSource(newText).split('\n');
+      const endLine = Math.min(end.line, oldLines.length - 1);
+      const newEndLine = endLine + newLines.length - oldLines.length;
+      return {
+        range: {
+          start: { line: start.line, character: 0 },
+          end: { line: endLine, character: oldLines[endLine].length },
+        },
+        text: newLines.slice(start.line, newEndLine + 1).join('\n'),
+      };
+    });
+  }
+
+  /**
+   * @returns a redacted copy of the given value, in which the free-text and
+   *     URI entries are redacted.
+   */
+  private redactValue(value: unknown, key?: string): unknown {
+    if (typeof value === 'string') {
+      if (key !== undefined && uriKeys.has(key)) {
+        return this.redactUri(value);
+      }
+      return key !== undefined && freeTextKeys.has(key)
+        ? this.redactWords(value)
+        : value;
+    }
+    if (Array.isArray(value)) {
+      // Hover contents might be a list of strings.
+      return value.map((item) => this.redactValue(item, key));
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([entryKey, entryValue]) => [
+          entryKey,
+          this.redactValue(entryValue, entryKey),
+        ]),
+      );
+    }
+    return value;
+  }
+
+  /**
+   * @returns the redacted params of a message with the given method. The
+   *     contents of documents are redacted as source code, while other
+   *     messages only have their free-text and URI entries redacted.
+   */
+  public redactParams(method: string, params: any): any {
+    switch (method) {
+      case 'textDocument/didOpen': {
+        const textDocument = params.textDocument;
+        return {
+          ...params,
+          textDocument: {
+            ...textDocument,
+            uri: this.redactUri(textDocument.uri),
+            text: this.openDocument(textDocument.uri, textDocument.text),
+          },
+        };
+      }
+      case 'textDocument/didChange':
+        return {
+          ...params,
+          textDocument: {
+            ...params.textDocument,
+            uri: this.redactUri(params.textDocument.uri),
+          },
+          contentChanges: this.changeDocument(
+            params.textDocument.uri,
+            params.contentChanges,
+          ),
+        };
+      case 'textDocument/didClose':
+        this.uriToText.delete(params.textDocument.uri);
+        return this.redactValue(params);
+      case 'notebookDocument/didOpen':
+        return {
+          ...(this.redactValue(params) as object),
+          cellTextDocuments: params.cellTextDocuments.map((cell: any) => ({
+            ...cell,
+            uri: this.redactUri(cell.uri),
+            text: this.openDocument(cell.uri, cell.text),
+          })),
+        };
+      case 'notebookDocument/didChange':
+        return this.redactNotebookChange(params);
+      default:
+        return this.redactValue(params);
+    }
+  }
+
+  /**
+   * @returns the redacted params of a `notebookDocument/didChange`
+   *     notification, whose cell contents are redacted as source code.
+   */
+  private redactNotebookChange(params: any): any {
+    const cells = params.change?.cells;
+    const redacted: any = this.redactValue(params);
+    if (cells === undefined) {
+      return redacted;
+    }
+    const structure = cells.structure;
+    if (structure?.didOpen !== undefined) {
+      redacted.change.cells.structure.didOpen = structure.didOpen.map(
+        (cell: any) => ({
+          ...cell,
+          uri: this.redactUri(cell.uri),
+          text: this.openDocument(cell.uri, cell.text),
+        }),
+      );
+    }
+    for (const cell of structure?.didClose ?? []) {
+      this.uriToText.delete(cell.uri);
+    }
+    if (cells.textContent !== undefined) {
+      redacted.change.cells.textContent = cells.textContent.map(
+        (content: any) => ({
+          document: {
+            ...content.document,
+            uri: this.redactUri(content.document.uri),
+          },
+          changes: this.changeDocument(content.document.uri, content.changes),
+        }),
+      );
+    }
+    return redacted;
+  }
+
+  /**
+   * @returns a redacted copy of the given recorded message.
+   */
+  public redactMessage(message: RecordedMessage): RecordedMessage {
+    const { params, result, error } = message;
+    return {
+      ...message,
+      ...(params !== undefined && {
+        params: this.redactParams(message.method, params),
+      }),
+      ...(result !== undefined && { result: this.redactValue(result) }),
+      ...(error !== undefined && {
+        error: { ...error, message: this.redactWords(error.message) },
+      }),
+    };
+  }
+}
+
+/**
+ * Redact an existing session recording, in either format version, with the
+ * same transform the recorder applies in redaction mode.
+ *
+ * @returns the contents of the redacted recording.
+ * @throws if a line isn't valid JSON.
+ */
+export function redactRecording(text: string): string {
+  const redactor = new RecordingRedactor();
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      if (line.trim() === '') {
+        return line;
+      }
+      const entry = JSON.parse(line);
+      if (entry.kind === 'header') {
+        return JSON.stringify({ ...entry, redacted: true });
+      }
+      if (entry.kind !== undefined) {
+        return JSON.stringify(redactor.redactMessage(entry));
+      }
+      // Version 1 entries have a `type` and a `param`, and the method might be
+      // a whole message signature.
+      const method: Optional<string> =
+        typeof entry.method === 'string' ? entry.method : entry.method?.method;
+      return JSON.stringify({
+        ...entry,
+        param: redactor.redactParams(method ?? '', entry.param),
+      });
+    })
+    .join('\n');
+}
@@ -148,8 +148,10 @@ export class PythonEnvironmentManager extends DisposableContext {
   public onEnvironmentChange: vscode.Event<void>;
   private envChangeEmitter: vscode.EventEmitter<void>;
   private displayedSDKError: boolean = false;
-  private lastLoadedEnv: string | undefined = undefined;
-  private activeSDK: SDK | undefined = undefined;
+  /// The last loaded environment paths, given by the URI of their workspace folder, or by an empty string for the global one.
+  private lastLoadedEnvs = new Map<string, string>();
+  /// The active SDKs, given by the same keys as `lastLoadedEnvs`.
+  private activeSDKs = new Map<string, SDK>();
 
   constructor(logger: Logger, reporter: TelemetryReporter) {
     super();
@@ -163,27 +165,39 @@ export class PythonEnvironmentManager extends DisposableContext {
     this.api = await PythonExtension.api();
     this.pushSubscription(
       this.api.environments.onDidChangeActiveEnvironmentPath((p) =>
-        this.handleEnvironmentChange(p.path),
+        this.handleEnvironmentChange(p.path, p.resource),
       ),
     );
   }
 
-  private async handleEnvironmentChange(newEnv: string) {
+  private async handleEnvironmentChange(
+    newEnv: string,
+    resource: vscode.Uri | vscode.WorkspaceFolder | undefined,
+  ) {
+    const workspaceFolder =
+      resource instanceof vscode.Uri
+        ? vscode.workspace.getWorkspaceFolder(resource)
+        : resource;
+    const lastLoadedEnv = this.lastLoadedEnvs.get(
+      workspaceFolder?.uri.toString() ?? '',
+    );
     this.logger.debug(
-      `Active environment path change: ${newEnv} (current: ${this.lastLoadedEnv})`,
+      `Active environment path change: ${newEnv} (current: ${lastLoadedEnv})`,
     );
-    if (newEnv != this.lastLoadedEnv) {
+    if (newEnv != lastLoadedEnv) {
       this.logger.info('Python environment has changed, reloading SDK');
       this.envChangeEmitter.fire();
       this.displayedSDKError = false;
     }
   }
 
-  /// Finds the active SDK from the currently active Python environment, or undefined if one is not present.
-  public async findActiveSDK(): Promise<SDK | undefined> {
+  /// Finds the active SDK from the currently active Python environment of the given workspace folder, or undefined if one is not present.
+  public async findActiveSDK(
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ): Promise<SDK | undefined> {
     assert(this.api !== undefined);
     // Prioritize retrieving a monorepo SDK over querying the environment.
-    const monorepoSDK = await this.tryGetMonorepoSDK();
+    const monorepoSDK = await this.tryGetMonorepoSDK(workspaceFolder);
 
     if (monorepoSDK) {
       this.logger.info(
@@ -192,10 +206,14 @@ export class PythonEnvironmentManager extends DisposableContext {
       return monorepoSDK;
     }
 
-    const envPath = this.api.environments.getActiveEnvironmentPath();
+    const envPath =
+      this.api.environments.getActiveEnvironmentPath(workspaceFolder);
     const env = await this.api.environments.resolveEnvironment(envPath);
     this.logger.info('Loading MAX SDK information from Python environment');
-    this.lastLoadedEnv = envPath.path;
+    this.lastLoadedEnvs.set(
+      workspaceFolder?.uri.toString() ?? '',
+      envPath.path,
+    );
 
     if (!env) {
       this.logger.error(
@@ -228,13 +246,20 @@ export class PythonEnvironmentManager extends DisposableContext {
     }
   }
 
-  /// Load the active SDK from the currently active Python environment, or undefined if one is not present.
-  public async getActiveSDK(): Promise<SDK | undefined> {
-    if (this.activeSDK) {
-      return this.activeSDK;
+  /// Load the active SDK from the currently active Python environment of the given workspace folder, or undefined if one is not present.
+  public async getActiveSDK(
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ): Promise<SDK | undefined> {
+    const key = workspaceFolder?.uri.toString() ?? '';
+    const activeSDK = this.activeSDKs.get(key);
+    if (activeSDK) {
+      return activeSDK;
+    }
+    const sdk = await this.findActiveSDK(workspaceFolder);
+    if (sdk) {
+      this.activeSDKs.set(key, sdk);
     }
-    this.activeSDK = await this.findActiveSDK();
-    return this.activeSDK;
+    return sdk;
   }
 
   private async displaySDKError(message: string) {
@@ -398,21 +423,19 @@ export class PythonEnvironmentManager extends DisposableContext {
     }
   }
 
-  /// Attempt to load a monorepo SDK from the currently open workspace folder.
+  /// Attempt to load a monorepo SDK from the given workspace folder, or else from the currently open workspace folder if there's only one.
   /// Resolves with the loaded SDK, or undefined if one doesn't exist.
-  private async tryGetMonorepoSDK(): Promise<SDK | undefined> {
-    if (!vscode.workspace.workspaceFolders) {
-      return;
-    }
-
-    if (vscode.workspace.workspaceFolders.length !== 1) {
-      return;
+  private async tryGetMonorepoSDK(
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ): Promise<SDK | undefined> {
+    if (!workspaceFolder) {
+      if (vscode.workspace.workspaceFolders?.length !== 1) {
+        return;
+      }
+      workspaceFolder = vscode.workspace.workspaceFolders[0];
     }
 
-    const folder = vscode.Uri.joinPath(
-      vscode.workspace.workspaceFolders[0].uri,
-      '.derived',
-    );
+    const folder = vscode.Uri.joinPath(workspaceFolder.uri, '.derived');
     try {
       const info = await vscode.workspace.fs.stat(folder);
       if (info.type & vscode.FileType.Directory) {
@@ -0,0 +1,222 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+//
+// Implements a scripted stand-in for mojo-lsp-server, used to exercise the LSP
+// proxy in tests. The script is read from the JSON file given as the first
+// argument.
+//
+//===----------------------------------------------------------------------===//
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StreamMessageReader } from 'vscode-jsonrpc/node';
+import { Optional } from '../types';
+
+/**
+ * The scripted reply of the fake server to a given request method.
+ */
+export interface FakeServerReply {
+  /**
+   * The result sent back to the proxy.
+   */
+  result?: any;
+  /**
+   * The error sent back to the proxy. It takes precedence over `result`.
+   */
+  error?: { code: number; message: string; data?: any };
+  /**
+   * Raw data written to stdout right before the reply, used to emulate
+   * malformed packets.
+   */
+  rawPrefix?: string;
+  /**
+   * Text written to stderr before replying or exiting, e.g. to emulate a crash
+   * backtrace.
+   */
+  stderr?: string;
+  /**
+   * If set, the server exits with this code instead of replying, e.g. to
+   * emulate a crash.
+   */
+  exitCode?: number;
+  /**
+   * If set, `exitCode` only applies if some open document contains this text.
+   */
+  exitIfDocumentContains?: string;
+  /**
+   * If set, `exitCode` only applies if the text at the position of the request
+   * starts with this text.
+   */
+  exitIfPositionAt?: string;
+  /**
+   * If set, the server never replies, e.g. to emulate a deadlock.
+   */
+  hang?: boolean;
+  /**
+   * If set, the server never replies and stops processing any further
+   * message, e.g. to emulate a long analysis.
+   */
+  busy?: boolean;
+  /**
+   * If set, the reply is sent after this delay.
+   */
+  delayMs?: number;
+  /**
+   * If set for a notification method, the server echoes the params of each
+   * received notification back as the message of a `window/logMessage`
+   * notification.
+   */
+  echo?: boolean;
+  /**
+   * Notifications sent to the proxy right before the reply, e.g. to publish
+   * diagnostics.
+   */
+  notifications?: { method: string; params: any }[];
+}
+
+/**
+ * Maps request methods to their scripted replies. Requests without a reply
+ * are responded with `null`, except for `initialize`.
+ */
+export type FakeServerScript = { [method: string]: FakeServerReply };
+
+/**
+ * @returns the arguments needed to launch the fake server with the given
+ *     script, to be used as the `serverArgs` of the proxy.
+ */
+export function getFakeServerArgs(script: FakeServerScript): string[] {
+  // Scripts can be too large to be passed directly as an argument.
+  const scriptPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), 'fake-lsp-server-')),
+    'script.json',
+  );
+  fs.writeFileSync(scriptPath, JSON.stringify(script));
+  return [__filename, scriptPath];
+}
+
+/**
+ * Write a packet to stdout. We do the framing ourselves to also send a
+ * `Content-Type` header, which is allowed by the protocol but rarely used.
+ */
+function sendPacket(packet: object) {
+  const payload = Buffer.from(JSON.stringify(packet));
+  process.stdout.write(
+    `Content-Length: ${payload.length}\r\n` +
+      'Content-Type: application/vscode-jsonrpc; charset=utf-8\r\n\r\n',
+  );
+  process.stdout.write(payload);
+}
+
+function getReply(method: string, reply: Optional<FakeServerReply>): object {
+  if (reply?.error !== undefined) {
+    return { error: reply.error };
+  }
+  if (reply !== undefined) {
+    return { result: reply.result };
+  }
+  if (method === 'initialize') {
+    return { result: { capabilities: {} } };
+  }
+  return { result: null };
+}
+
+/**
+ * @returns whether the text at the position of the given request params
+ *     starts with the given text.
+ */
+function isPositionAt(
+  documents: Map<string, string>,
+  params: any,
+  text: string,
+): boolean {
+  const position = params?.position;
+  const lines = documents.get(params?.textDocument?.uri)?.split('\n');
+  const line = lines?.[position?.line ?? -1]?.slice(position?.character);
+  return line?.startsWith(text) ?? false;
+}
+
+function main(script: FakeServerScript) {
+  const reader = new StreamMessageReader(process.stdin);
+  const documents = new Map<string, string>();
+  let busy = false;
+
+  reader.listen((message: any) => {
+    if (busy) {
+      return;
+    }
+    if (message.method === 'exit') {
+      process.exit(0);
+    }
+    if (message.method === 'textDocument/didOpen') {
+      documents.set(
+        message.params.textDocument.uri,
+        message.params.textDocument.text,
+      );
+    }
+    if (message.id === undefined && script[message.method]?.echo) {
+      sendPacket({
+        jsonrpc: '2.0',
+        method: 'window/logMessage',
+        params: { type: 4, message: JSON.stringify(message.params) },
+      });
+    }
+    if (message.id === undefined || message.method === undefined) {
+      return;
+    }
+    const reply = script[message.method];
+    if (reply?.stderr !== undefined) {
+      process.stderr.write(reply.stderr);
+    }
+    if (
+      reply?.exitCode !== undefined &&
+      (reply.exitIfDocumentContains === undefined ||
+        [...documents.values()].some((text) =>
+          text.includes(reply.exitIfDocumentContains!),
+        )) &&
+      (reply.exitIfPositionAt === undefined ||
+        isPositionAt(documents, message.params, reply.exitIfPositionAt))
+    ) {
+      process.exit(reply.exitCode);
+    }
+    for (const notification of reply?.notifications ?? []) {
+      sendPacket({ jsonrpc: '2.0', ...notification });
+    }
+    if (reply?.hang || reply?.busy) {
+      busy = reply.busy ?? false;
+      return;
+    }
+    const sendReply = () => {
+      if (reply?.rawPrefix !== undefined) {
+        process.stdout.write(reply.rawPrefix);
+      }
+      sendPacket({
+        jsonrpc: '2.0',
+        id: message.id,
+        ...getReply(message.method, reply),
+      });
+    };
+    if (reply?.delayMs !== undefined) {
+      setTimeout(sendReply, reply.delayMs);
+    } else {
+      sendReply();
+    }
+  });
+
+  // The proxy owns this process, so we go away together with it.
+  process.stdin.on('end', () => process.exit(0));
+}
+
+if (require.main === module) {
+  main(JSON.parse(fs.readFileSync(process.argv[2], 'utf8')));
+}
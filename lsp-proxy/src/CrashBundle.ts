@@ -0,0 +1,169 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { MojoDocument, MojoTextDocument } from './MojoDocument';
+import {
+  ExitStatus,
+  InitializationOptions,
+  Optional,
+  ServerCrashInfo,
+  URI,
+} from './types';
+
+/**
+ * The name of the file with the crash metadata within a bundle.
+ */
+export const crashBundleManifest = 'crash.json';
+
+/**
+ * The prefix of the directory name of every bundle.
+ */
+const crashBundlePrefix = 'mojo-lsp-crash-';
+
+/**
+ * The environment variables of the server that are kept in bundles, as they
+ * might affect how it behaves. Everything else is left out, as it might
+ * contain credentials.
+ */
+const bundledEnvNames = new Set([
+  'PATH',
+  'LD_LIBRARY_PATH',
+  'DYLD_LIBRARY_PATH',
+  'PYTHONHOME',
+  'PYTHONPATH',
+  'CONDA_PREFIX',
+]);
+
+/**
+ * @returns the environment variables of the server that are safe to bundle.
+ *     Mojo and Modular variables are kept too, except for the values of the
+ *     ones that look like credentials.
+ */
+function getBundledEnv(env: InitializationOptions['serverEnv']): {
+  [env: string]: Optional<string>;
+} {
+  const bundledEnv: { [env: string]: Optional<string> } = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (bundledEnvNames.has(name)) {
+      bundledEnv[name] = value;
+    } else if (/^(MODULAR|MOJO)_/.test(name)) {
+      bundledEnv[name] = /TOKEN|KEY|SECRET|PASSWORD|AUTH/.test(name)
+        ? '<redacted>'
+        : value;
+    }
+  }
+  return bundledEnv;
+}
+
+/**
+ * Delete the oldest bundles within `directory`, so that at most `maxCount`
+ * remain.
+ */
+function pruneCrashBundles(directory: string, maxCount: number) {
+  // The timestamp in the names makes them sort by age.
+  const bundles = fs
+    .readdirSync(directory)
+    .filter((name) => name.startsWith(crashBundlePrefix))
+    .sort();
+  for (const name of bundles.slice(0, Math.max(bundles.length - maxCount, 0))) {
+    fs.rmSync(path.join(directory, name), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write a self-contained bundle that allows reproducing a server crash. The
+ * bundle is a new directory within `directory` with the following contents:
+ *   - `crash.json`: the exit status, how the server was launched, the pending
+ *     requests, the last messages sent to the server and the tracked documents.
+ *   - `stderr.log`: the last lines written by the server to stderr.
+ *   - `documents/`: the contents of every tracked text document.
+ *
+ * Only the environment variables needed to reproduce the crash are written,
+ * and the oldest bundles are deleted to keep at most `maxCount` of them.
+ *
+ * @returns the path to the new bundle.
+ */
+export function writeCrashBundle({
+  directory,
+  maxCount,
+  status,
+  initializationOptions,
+  crashInfo,
+  crashTriggerUri,
+  docs,
+}: {
+  directory: string;
+  maxCount: number;
+  status: ExitStatus;
+  initializationOptions: InitializationOptions;
+  crashInfo: ServerCrashInfo;
+  crashTriggerUri: Optional<URI>;
+  docs: Iterable<MojoDocument>;
+}): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const bundlePath = path.join(
+    directory,
+    `${crashBundlePrefix}${timestamp}-${process.pid}`,
+  );
+  const documentsPath = path.join(bundlePath, 'documents');
+  fs.mkdirSync(documentsPath, { recursive: true });
+
+  const documents = [];
+  for (const doc of docs) {
+    const entry: { uri: URI; version: number; file?: string } = {
+      uri: doc.uri,
+      version: doc.version,
+    };
+    // Notebooks have no contents on their own, as their cells are tracked as
+    // separate documents.
+    if (doc instanceof MojoTextDocument) {
+      // The index keeps the file names unique, e.g. for notebook cells.
+      const fileName =
+        path.basename(new URL(doc.uri).pathname) || 'document.mojo';
+      entry.file = path.join('documents', `${documents.length}-${fileName}`);
+      fs.writeFileSync(
+        path.join(bundlePath, entry.file),
+        doc.textDocument.getText(),
+      );
+    }
+    documents.push(entry);
+  }
+
+  const manifest = {
+    time: new Date().toISOString(),
+    exitStatus: status,
+    server: {
+      pid: crashInfo.pid,
+      path: initializationOptions.serverPath,
+      args: initializationOptions.serverArgs,
+      env: getBundledEnv(initializationOptions.serverEnv),
+    },
+    crashTriggerUri,
+    pendingRequests: crashInfo.pendingRequests,
+    recentMessages: crashInfo.recentPackets,
+    documents,
+  };
+  fs.writeFileSync(
+    path.join(bundlePath, crashBundleManifest),
+    JSON.stringify(manifest, undefined, 2),
+  );
+  fs.writeFileSync(
+    path.join(bundlePath, 'stderr.log'),
+    crashInfo.stderrTail.join('\n'),
+  );
+  pruneCrashBundles(directory, maxCount);
+  return bundlePath;
+}
@@ -0,0 +1,270 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import {
+  DidOpenTextDocumentParams,
+  ErrorCodes,
+  InitializeParams,
+  Position,
+  Range,
+  ResponseError,
+} from 'vscode-languageserver-protocol';
+
+import { MojoLSPServer } from './MojoLSPServer';
+import {
+  CrashMinimizerOptions,
+  ExitStatus,
+  InitializationOptions,
+  Optional,
+  RequestParamsWithDocument,
+} from './types';
+
+/**
+ * The request that made the server crash, which is replayed on every attempt.
+ */
+export type CrashingRequest = {
+  method: string;
+  params: RequestParamsWithDocument;
+};
+
+/**
+ * Class that shrinks the contents of a document that crashes the server down
+ * to a minimal reproducer. Each candidate is tested by replaying the crashing
+ * request against a fresh server, and candidates are picked following the
+ * delta debugging algorithm over the lines of the document.
+ */
+export class CrashMinimizer {
+  private initializationOptions: InitializationOptions;
+  private initializeParams: InitializeParams;
+  private options: CrashMinimizerOptions;
+  private logger: (message: string) => void;
+  private attempts = 0;
+
+  constructor({
+    initializationOptions,
+    initializeParams,
+    options,
+    logger,
+  }: {
+    initializationOptions: InitializationOptions;
+    initializeParams: InitializeParams;
+    options: CrashMinimizerOptions;
+    logger: (message: string) => void;
+  }) {
+    // Replay servers shouldn't write bundles of their own crashes, and hangs
+    // are handled by the replay timeout instead of being reported as crashes.
+    this.initializationOptions = {
+      ...initializationOptions,
+      crashBundle: undefined,
+      watchdog: undefined,
+    };
+    this.initializeParams = initializeParams;
+    this.options = options;
+    this.logger = logger;
+  }
+
+  /**
+   * Minimize the given document contents. The lines holding the positions of
+   * the crashing request are always kept, and the positions are shifted to
+   * follow them as the lines before them are removed.
+   *
+   * @returns the minimized contents, or `undefined` if the crash couldn't be
+   *     reproduced.
+   */
+  public async minimize(
+    languageId: string,
+    text: string,
+    request: CrashingRequest,
+  ): Promise<Optional<string>> {
+    // Lines keep their line terminators, so that joining them is lossless.
+    const allLines = text.split(/(?<=\n)/);
+    const anchors = getPositions(request.params)
+      .map((position) => position.line)
+      .filter((line) => line < allLines.length);
+    // The indices of the lines kept along with the anchors, in order.
+    const withAnchors = (lines: number[]) =>
+      [...new Set([...lines, ...anchors])].sort((a, b) => a - b);
+    const crashes = (lines: number[]) => {
+      const keptLines = withAnchors(lines);
+      return this.replay(
+        languageId,
+        keptLines.map((line) => allLines[line]).join(''),
+        {
+          method: request.method,
+          params: remapPositions(request.params, keptLines),
+        },
+      );
+    };
+
+    let lines = allLines
+      .map((_, line) => line)
+      .filter((line) => !anchors.includes(line));
+    if (!(await crashes(lines))) {
+      this.logger('The crash could not be reproduced.');
+      return undefined;
+    }
+
+    let granularity = 2;
+    while (lines.length >= 2 && this.attempts < this.options.maxAttempts) {
+      const chunkSize = Math.ceil(lines.length / granularity);
+      const chunks: number[][] = [];
+      for (let i = 0; i < lines.length; i += chunkSize) {
+        chunks.push(lines.slice(i, i + chunkSize));
+      }
+
+      let reduced = false;
+      // First try to reduce to a single chunk, then to its complement.
+      for (const chunk of chunks) {
+        if (await crashes(chunk)) {
+          lines = chunk;
+          granularity = 2;
+          reduced = true;
+          break;
+        }
+      }
+      if (!reduced && chunks.length > 2) {
+        for (let i = 0; i < chunks.length; i++) {
+          const complement = ([] as number[]).concat(
+            ...chunks.filter((_, j) => j !== i),
+          );
+          if (await crashes(complement)) {
+            lines = complement;
+            granularity = Math.max(granularity - 1, 2);
+            reduced = true;
+            break;
+          }
+        }
+      }
+      if (!reduced) {
+        if (granularity >= lines.length) {
+          break;
+        }
+        granularity = Math.min(granularity * 2, lines.length);
+      }
+      this.logger(
+        `Crash trigger minimization: ${
+          withAnchors(lines).length
+        } lines left after ${this.attempts} attempts.`,
+      );
+    }
+    // Chunks never get empty, so the last line is only dropped if the anchors
+    // alone are enough.
+    if (
+      lines.length === 1 &&
+      this.attempts < this.options.maxAttempts &&
+      (await crashes([]))
+    ) {
+      lines = [];
+    }
+    return withAnchors(lines)
+      .map((line) => allLines[line])
+      .join('');
+  }
+
+  /**
+   * Replay the crashing request on a fresh server for the given contents. If
+   * the replay times out, the server is disposed and its pending requests are
+   * rejected.
+   *
+   * @returns whether the server crashed.
+   */
+  private replay(
+    languageId: string,
+    text: string,
+    request: CrashingRequest,
+  ): Promise<boolean> {
+    this.attempts++;
+    return new Promise((resolve) => {
+      let finished = false;
+      const finish = (crashed: boolean) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(timeout);
+        server.rejectPendingRequests(
+          new ResponseError(
+            ErrorCodes.InternalError,
+            'The replay of the crashing request is over.',
+          ),
+        );
+        server.dispose();
+        resolve(crashed);
+      };
+      // A hung server doesn't count as a reproduction of the crash.
+      const timeout = setTimeout(() => finish(false), this.options.timeoutMs);
+
+      const server: MojoLSPServer = new MojoLSPServer({
+        initializationOptions: this.initializationOptions,
+        logger: () => {},
+        onExit: (status: ExitStatus) => finish(status.code !== 0),
+        onNotification: () => {},
+        onOutgoingRequest: (id: any) => server.sendResponse(id, null),
+      });
+
+      const didOpenParams: DidOpenTextDocumentParams = {
+        textDocument: {
+          uri: request.params.textDocument.uri,
+          languageId,
+          version: 1,
+          text,
+        },
+      };
+      server
+        .sendRequest(this.initializeParams, 'initialize')
+        .then(() => {
+          server.sendNotification({}, 'initialized');
+          server.sendNotification(didOpenParams, 'textDocument/didOpen');
+          return server.sendRequest(request.params, request.method);
+        })
+        .then(
+          () => finish(false),
+          () => finish(false),
+        );
+    });
+  }
+}
+
+/**
+ * @returns the positions in the given request params, i.e. its `position` and
+ *     the bounds of its `range`.
+ */
+function getPositions(params: RequestParamsWithDocument): Position[] {
+  const { position, range } = params as { position?: Position; range?: Range };
+  return [
+    ...(position !== undefined ? [position] : []),
+    ...(range !== undefined ? [range.start, range.end] : []),
+  ];
+}
+
+/**
+ * @returns the given request params with their positions shifted to the
+ *     lines they end up on once only the given lines are kept.
+ */
+function remapPositions(
+  params: RequestParamsWithDocument,
+  keptLines: number[],
+): RequestParamsWithDocument {
+  const remap = (position: Position): Position => ({
+    line: keptLines.filter((line) => line < position.line).length,
+    character: position.character,
+  });
+  const { position, range } = params as { position?: Position; range?: Range };
+  return {
+    ...params,
+    ...(position !== undefined && { position: remap(position) }),
+    ...(range !== undefined && {
+      range: { start: remap(range.start), end: remap(range.end) },
+    }),
+  };
+}
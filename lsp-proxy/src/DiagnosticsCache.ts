@@ -0,0 +1,82 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import {
+  Diagnostic,
+  PublishDiagnosticsParams,
+} from 'vscode-languageserver-protocol';
+
+import { Optional, URI } from './types';
+
+/**
+ * The prefix added to the message of diagnostics that were published by a
+ * server that crashed afterwards.
+ */
+const staleDiagnosticPrefix = '(stale) ';
+
+/**
+ * Class that keeps the last diagnostics published by the server for each
+ * document, along with the document version they were computed for, so that
+ * they can be shown again after the server crashes, until the new server
+ * publishes fresh ones.
+ */
+export class DiagnosticsCache {
+  private uriToDiagnostics = new Map<URI, PublishDiagnosticsParams>();
+
+  /**
+   * Record the diagnostics published by the server, replacing the ones cached
+   * for the same document. The version is optional in the protocol, so the
+   * diagnostics published without one are recorded for the given version of
+   * the document, if known.
+   */
+  public update(
+    params: PublishDiagnosticsParams,
+    documentVersion: Optional<number>,
+  ): void {
+    this.uriToDiagnostics.set(params.uri, {
+      ...params,
+      version: params.version ?? documentVersion,
+    });
+  }
+
+  /**
+   * Forget the diagnostics of a document, e.g. because it was closed.
+   */
+  public delete(uri: URI): void {
+    this.uriToDiagnostics.delete(uri);
+  }
+
+  /**
+   * @returns the last diagnostics published for the given version of a
+   *     document, marked as stale, or an empty list if there are none. If the
+   *     cached diagnostics were computed for another version, their ranges
+   *     might point at the wrong code, so undefined is returned instead.
+   */
+  public getStaleDiagnostics(
+    uri: URI,
+    version: number,
+  ): Optional<Diagnostic[]> {
+    const params: Optional<PublishDiagnosticsParams> =
+      this.uriToDiagnostics.get(uri);
+    if (params === undefined) {
+      return [];
+    }
+    if (params.version !== version) {
+      return undefined;
+    }
+    return params.diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      message: staleDiagnosticPrefix + diagnostic.message,
+    }));
+  }
+}
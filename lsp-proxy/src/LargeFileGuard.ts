@@ -0,0 +1,98 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { MojoTextDocument } from './MojoDocument';
+import { LargeFileModeParams, LargeFileOptions, Optional, URI } from './types';
+
+/**
+ * The requests that are too expensive for large documents, along with the
+ * empty results they are answered with instead.
+ */
+const methodToEmptyResult = new Map<string, unknown>([
+  ['textDocument/semanticTokens/full', { data: [] }],
+  ['textDocument/semanticTokens/full/delta', { data: [] }],
+  ['textDocument/inlayHint', []],
+  ['textDocument/foldingRange', []],
+]);
+
+/**
+ * Class that spares the server from expensive requests on large documents,
+ * unless the user turns the features back on for a given document.
+ */
+export class LargeFileGuard {
+  /**
+   * The size limits of documents. Documents are never guarded if missing.
+   * It's set once the initialization options are known.
+   */
+  public options: Optional<LargeFileOptions>;
+  /**
+   * The documents for which the user turned the features back on.
+   */
+  private overriddenUris = new Set<URI>();
+  /**
+   * The documents that have been reported as large.
+   */
+  private reportedUris = new Set<URI>();
+  private onLargeFile: (params: LargeFileModeParams) => void;
+
+  /**
+   * @param onLargeFile A callback invoked the first time a request on a given
+   *     large document is answered locally.
+   */
+  constructor(onLargeFile: (params: LargeFileModeParams) => void) {
+    this.onLargeFile = onLargeFile;
+  }
+
+  /**
+   * @returns the empty result for the given request if it shouldn't reach
+   *     the server, or undefined otherwise.
+   */
+  public getLocalResult(method: string, doc: MojoTextDocument): unknown {
+    const options = this.options;
+    if (
+      options === undefined ||
+      !methodToEmptyResult.has(method) ||
+      this.overriddenUris.has(doc.uri)
+    ) {
+      return undefined;
+    }
+    const lineCount = doc.textDocument.lineCount;
+    const byteCount = Buffer.byteLength(doc.textDocument.getText(), 'utf8');
+    if (
+      (options.maxLines === undefined || lineCount <= options.maxLines) &&
+      (options.maxBytes === undefined || byteCount <= options.maxBytes)
+    ) {
+      return undefined;
+    }
+    if (!this.reportedUris.has(doc.uri)) {
+      this.reportedUris.add(doc.uri);
+      this.onLargeFile({ uri: doc.uri, lineCount, byteCount });
+    }
+    return methodToEmptyResult.get(method);
+  }
+
+  /**
+   * Let the expensive requests on the given document reach the server.
+   */
+  public override(uri: URI): void {
+    this.overriddenUris.add(uri);
+  }
+
+  /**
+   * Forget about the given document, e.g. because it was closed.
+   */
+  public forget(uri: URI): void {
+    this.overriddenUris.delete(uri);
+    this.reportedUris.delete(uri);
+  }
+}
@@ -0,0 +1,69 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as fs from 'fs';
+
+import { MemoryMonitorOptions, Optional } from './types';
+
+/**
+ * @returns the resident set size in bytes of the given process, or undefined
+ *     if it can't be read, e.g. on platforms other than Linux.
+ */
+export function readResidentSetSize(pid: number): Optional<number> {
+  let status: string;
+  try {
+    status = fs.readFileSync(`/proc/${pid}/status`, 'utf8');
+  } catch {
+    return undefined;
+  }
+  const match = status.match(/^VmRSS:\s*(\d+)\s*kB$/m);
+  return match ? parseInt(match[1]) * 1024 : undefined;
+}
+
+/**
+ * Class that periodically samples the memory usage of a process and reports
+ * once it exceeds a threshold.
+ */
+export class MemoryMonitor {
+  private interval: Optional<NodeJS.Timeout>;
+
+  /**
+   * @param onThresholdExceeded A callback invoked with the resident set size of
+   *     the process the first time it exceeds the threshold. The monitor stops
+   *     afterwards.
+   */
+  constructor(
+    pid: number,
+    options: MemoryMonitorOptions,
+    onThresholdExceeded: (rssBytes: number) => void,
+  ) {
+    this.interval = setInterval(() => {
+      const rssBytes = readResidentSetSize(pid);
+      if (rssBytes === undefined) {
+        // The process is gone or its memory usage can't be read on this
+        // platform, so there's nothing else to monitor.
+        this.dispose();
+        return;
+      }
+      if (rssBytes > options.thresholdBytes) {
+        this.dispose();
+        onThresholdExceeded(rssBytes);
+      }
+    }, options.intervalMs);
+  }
+
+  public dispose() {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+}
@@ -25,7 +25,17 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 
 import { MojoLSPServer } from './MojoLSPServer';
-import { Client, URI, Optional } from './types';
+import { ChangeCoalescingOptions, Client, URI, Optional } from './types';
+
+/**
+ * A burst of changes to a text document that haven't been sent to the server
+ * yet.
+ */
+type PendingChanges = {
+  changes: DidChangeTextDocumentParams[];
+  servers: MojoLSPServer[];
+  timeout: NodeJS.Timeout;
+};
 
 /**
  * Base class for all kinds of Mojo documents.
@@ -40,11 +50,12 @@ export abstract class MojoDocument {
   }
 
   /**
-   * Send a manual didOpen notification to the server with the full contents of
-   * the doc, as tracked by the proxy.
+   * Send a manual didOpen notification to the given servers with the full
+   * contents of the doc, as tracked by the proxy. All the servers of a folder
+   * track the same documents.
    */
   abstract openDocumentOnServer(
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
     stateHandler: MojoDocumentsStateHandler,
   ): void;
 }
@@ -69,7 +80,7 @@ export class MojoTextDocument extends MojoDocument {
   }
 
   openDocumentOnServer(
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
     stateHandler: MojoDocumentsStateHandler,
   ): void {
     const didOpenParams: DidOpenTextDocumentParams = {
@@ -82,7 +93,11 @@ export class MojoTextDocument extends MojoDocument {
     };
     stateHandler.markDocAsTrackedByServer(this);
     stateHandler.crashTriggerUris.delete(this.uri);
-    server.sendNotification(didOpenParams, 'textDocument/didOpen');
+    // The full contents already include any pending changes.
+    stateHandler.discardPendingChanges(this.uri);
+    for (const server of servers) {
+      server.sendNotification(didOpenParams, 'textDocument/didOpen');
+    }
   }
 }
 
@@ -137,7 +152,7 @@ export class MojoNotebookDocument extends MojoDocument {
   }
 
   openDocumentOnServer(
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
     stateHandler: MojoDocumentsStateHandler,
   ): void {
     const didOpenParams: DidOpenNotebookDocumentParams = {
@@ -156,7 +171,9 @@ export class MojoNotebookDocument extends MojoDocument {
     };
     stateHandler.markDocAsTrackedByServer(this);
     stateHandler.crashTriggerUris.delete(this.uri);
-    server.sendNotification(didOpenParams, 'notebookDocument/didOpen');
+    for (const server of servers) {
+      server.sendNotification(didOpenParams, 'notebookDocument/didOpen');
+    }
   }
 }
 
@@ -187,6 +204,15 @@ export class MojoDocumentsStateHandler {
    * notebook is also marked as a crash trigger.
    */
   public crashTriggerUris = new Set<URI>();
+  /**
+   * How to coalesce text document changes, if at all. It's set once the
+   * initialization options are known.
+   */
+  public changeCoalescing: Optional<ChangeCoalescingOptions>;
+  /**
+   * The changes held back for each text document, given by its URI.
+   */
+  private uriToPendingChanges = new Map<URI, PendingChanges>();
   /**
    * The LSP client.
    */
@@ -251,6 +277,82 @@ export class MojoDocumentsStateHandler {
     }
   }
 
+  /**
+   * Hold back a change to a text document that is tracked by the server, so
+   * that it can be sent together with the following changes of the same
+   * burst.
+   */
+  private coalesceChange(
+    params: DidChangeTextDocumentParams,
+    servers: MojoLSPServer[],
+    windowMs: number,
+  ): void {
+    const uri = params.textDocument.uri;
+    const pendingChanges = this.uriToPendingChanges.get(uri);
+    if (
+      pendingChanges !== undefined &&
+      pendingChanges.servers.length === servers.length &&
+      pendingChanges.servers.every((server, i) => server === servers[i])
+    ) {
+      pendingChanges.changes.push(params);
+      return;
+    }
+    this.flushPendingChanges(uri);
+    this.uriToPendingChanges.set(uri, {
+      changes: [params],
+      servers,
+      timeout: setTimeout(() => this.flushPendingChanges(uri), windowMs),
+    });
+  }
+
+  /**
+   * Send the changes held back for the given text document to the servers as
+   * a single notification carrying the latest version, with the changes in
+   * the order they were made. Changes are dropped if the document is no longer
+   * tracked by the server, as it'll be reopened with its full contents
+   * anyway.
+   */
+  public flushPendingChanges(uri: URI): void {
+    const pendingChanges = this.uriToPendingChanges.get(uri);
+    if (pendingChanges === undefined) {
+      return;
+    }
+    this.discardPendingChanges(uri);
+    const doc = this.uriToTextDocs.get(uri);
+    if (doc === undefined || !this.isTrackedByServer(doc)) {
+      return;
+    }
+    const { changes, servers } = pendingChanges;
+    const params: DidChangeTextDocumentParams = {
+      textDocument: changes[changes.length - 1].textDocument,
+      contentChanges: changes.flatMap((change) => change.contentChanges),
+    };
+    for (const server of servers) {
+      server.sendNotification(params, 'textDocument/didChange');
+    }
+  }
+
+  /**
+   * Flush the changes held back for all text documents.
+   */
+  public flushAllPendingChanges(): void {
+    for (const uri of [...this.uriToPendingChanges.keys()]) {
+      this.flushPendingChanges(uri);
+    }
+  }
+
+  /**
+   * Forget the changes held back for the given text document without sending
+   * them.
+   */
+  public discardPendingChanges(uri: URI): void {
+    const pendingChanges = this.uriToPendingChanges.get(uri);
+    if (pendingChanges !== undefined) {
+      clearTimeout(pendingChanges.timeout);
+      this.uriToPendingChanges.delete(uri);
+    }
+  }
+
   /**
    * Update the underlying `cells` based on the incoming list of changes.
    *
@@ -353,18 +455,21 @@ export class MojoDocumentsStateHandler {
       }
     } else if (doc instanceof MojoTextDocument) {
       this.uriToTextDocs.delete(doc.uri);
+      this.discardPendingChanges(doc.uri);
     } else {
       throw new Error('unreachable');
     }
   }
 
   /**
-   * Generic document change handler.
+   * Generic document change handler. The changes are mirrored to all the given
+   * servers. If there's no running server, e.g. because it's being restarted,
+   * the changes are only applied locally.
    */
   public onDidChangeDocument(
     params: any,
     originalNotification: string,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
     uri: URI,
     doc: Optional<MojoDocument>,
   ): void {
@@ -372,7 +477,7 @@ export class MojoDocumentsStateHandler {
       this.client.console.log(
         `Updating a document non-tracked by the proxy '${uri}'.`,
       );
-      server.sendNotification(params, originalNotification);
+      this.sendNotification(servers, params, originalNotification);
       return;
     }
 
@@ -388,7 +493,10 @@ export class MojoDocumentsStateHandler {
       );
       this.stopTrackingDocument(doc);
 
-      server.sendNotification(params, originalNotification);
+      this.sendNotification(servers, params, originalNotification);
+      return;
+    }
+    if (servers.length === 0) {
       return;
     }
     // If the document is not tracked by the server, then we just had a
@@ -401,9 +509,27 @@ export class MojoDocumentsStateHandler {
     // `didOpen` notification with the entire text upon modifications,
     // instead of a `didChange` notification.
     if (!this.isTrackedByServer(doc)) {
-      doc.openDocumentOnServer(server, this);
+      doc.openDocumentOnServer(servers, this);
+    } else if (
+      this.changeCoalescing !== undefined &&
+      originalNotification === 'textDocument/didChange'
+    ) {
+      this.coalesceChange(params, servers, this.changeCoalescing.windowMs);
     } else {
-      server.sendNotification(params, originalNotification);
+      this.sendNotification(servers, params, originalNotification);
+    }
+  }
+
+  /**
+   * Send a notification to each of the given servers.
+   */
+  private sendNotification(
+    servers: MojoLSPServer[],
+    params: any,
+    method: string,
+  ): void {
+    for (const server of servers) {
+      server.sendNotification(params, method);
     }
   }
 
@@ -412,13 +538,13 @@ export class MojoDocumentsStateHandler {
    */
   public onDidChangeNotebookDocument(
     params: DidChangeNotebookDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ): void {
     const doc = this.uriToNotebookDocs.get(params.notebookDocument.uri);
     this.onDidChangeDocument(
       params,
       'notebookDocument/didChange',
-      server,
+      servers,
       params.notebookDocument.uri,
       doc,
     );
@@ -429,10 +555,12 @@ export class MojoDocumentsStateHandler {
    */
   public onDidOpenNotebookDocument(
     params: DidOpenNotebookDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ) {
     const doc = new MojoNotebookDocument(params);
-    doc.openDocumentOnServer(server, this);
+    if (servers.length > 0) {
+      doc.openDocumentOnServer(servers, this);
+    }
     this.uriToNotebookDocs.set(params.notebookDocument.uri, doc);
 
     for (const cellDoc of doc.cellDocs) {
@@ -445,7 +573,7 @@ export class MojoDocumentsStateHandler {
    */
   public onDidCloseNotebookDocument(
     params: DidCloseNotebookDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ) {
     const doc = this.uriToNotebookDocs.get(params.notebookDocument.uri);
 
@@ -453,7 +581,7 @@ export class MojoDocumentsStateHandler {
       this.stopTrackingDocument(doc);
     }
     this.uriToNotebookDocs.delete(params.notebookDocument.uri);
-    server.sendNotification(params, 'notebookDocument/didClose');
+    this.sendNotification(servers, params, 'notebookDocument/didClose');
   }
 
   /**
@@ -471,6 +599,7 @@ export class MojoDocumentsStateHandler {
         changes.contentChanges,
         changes.textDocument.version,
       );
+      doc.version = changes.textDocument.version;
       return true;
     } catch (ex) {
       this.client.console.error(`${ex}`);
@@ -483,13 +612,13 @@ export class MojoDocumentsStateHandler {
    */
   public onDidChangeTextDocument(
     params: DidChangeTextDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ): void {
     const doc = this.uriToTextDocs.get(params.textDocument.uri);
     this.onDidChangeDocument(
       params,
       'textDocument/didChange',
-      server,
+      servers,
       params.textDocument.uri,
       doc,
     );
@@ -500,10 +629,12 @@ export class MojoDocumentsStateHandler {
    */
   public onDidOpenTextDocument(
     params: DidOpenTextDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ) {
     const doc = new MojoTextDocument(params.textDocument);
-    doc.openDocumentOnServer(server, this);
+    if (servers.length > 0) {
+      doc.openDocumentOnServer(servers, this);
+    }
     this.uriToTextDocs.set(doc.uri, doc);
   }
 
@@ -512,14 +643,29 @@ export class MojoDocumentsStateHandler {
    */
   public onDidCloseTextDocument(
     params: DidCloseTextDocumentParams,
-    server: MojoLSPServer,
+    servers: MojoLSPServer[],
   ) {
     const doc = this.uriToTextDocs.get(params.textDocument.uri);
 
+    // The server must see the changes before the document is closed.
+    this.flushPendingChanges(params.textDocument.uri);
     if (doc !== undefined) {
       this.stopTrackingDocument(doc);
     }
-    server.sendNotification(params, 'textDocument/didClose');
+    this.sendNotification(servers, params, 'textDocument/didClose');
+  }
+
+  /**
+   * @returns the version of the given document, including cells, that was last
+   *     sent to the server, or undefined if the document isn't tracked or some
+   *     of its changes are held back.
+   */
+  public getVersionSentToServer(uri: URI): Optional<number> {
+    if (this.uriToPendingChanges.has(uri)) {
+      return undefined;
+    }
+    return (this.uriToTextDocs.get(uri) ?? this.uriToCellDocs.get(uri))
+      ?.version;
   }
 
   /**
@@ -11,7 +11,10 @@
 // limitations under the License.
 //===----------------------------------------------------------------------===//
 
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import {
+  CancellationToken,
   DiagnosticSeverity,
   DidChangeNotebookDocumentParams,
   DidChangeTextDocumentParams,
@@ -19,26 +22,140 @@ import {
   DidCloseTextDocumentParams,
   DidOpenNotebookDocumentParams,
   DidOpenTextDocumentParams,
+  ErrorCodes,
   InitializeParams,
   InitializeResult,
+  LSPErrorCodes,
   PublishDiagnosticsNotification,
   PublishDiagnosticsParams,
+  ResponseError,
+  ServerCapabilities,
+  WorkspaceSymbolParams,
 } from 'vscode-languageserver-protocol';
 import {
   createConnection as createClientConnection,
   ProposedFeatures,
+  WorkDoneProgressServerReporter,
 } from 'vscode-languageserver/node';
 
-import { MojoDocument, MojoDocumentsStateHandler } from './MojoDocument';
+import {
+  capabilityMethods,
+  getRelayedCapabilities,
+  isAdvertised,
+} from './capabilities';
+import { CommandLineOptions, resolveInitializationOptions } from './cli';
+import { crashBundleManifest, writeCrashBundle } from './CrashBundle';
+import { CrashMinimizer } from './CrashMinimizer';
+import { DiagnosticsCache } from './DiagnosticsCache';
+import { LargeFileGuard } from './LargeFileGuard';
+import { MemoryMonitor } from './MemoryMonitor';
+import {
+  MojoDocument,
+  MojoDocumentsStateHandler,
+  MojoNotebookDocument,
+  MojoTextDocument,
+} from './MojoDocument';
 import { MojoLSPServer } from './MojoLSPServer';
+import { RequestStatistics } from './RequestStatistics';
+import { ResponseCache } from './ResponseCache';
+import { getResultOrigin, tagResultOrigin } from './ResultOrigin';
+import { RestartScheduler } from './RestartPolicy';
+import { LogLevel } from './StderrParser';
 import {
   Client,
+  EnableLargeFileFeaturesParams,
   ExitStatus,
+  InitializationOptions,
   JSONObject,
+  LargeFileModeParams,
+  LSPRecycleParams,
+  LSPRestartParams,
+  MemoryMonitorOptions,
+  MinimizedCrashTriggerParams,
   Optional,
+  ProxyStats,
+  ProxyStatsParams,
   RequestParamsWithDocument,
+  RequestParamsWithoutDocument,
+  ServerProcessParams,
+  ServerStateParams,
   URI,
 } from './types';
+import {
+  normalizeFolderUri,
+  WorkspaceFolderRouter,
+} from './WorkspaceFolderRouter';
+
+/**
+ * The time given to a recycled server to shut down gracefully before it's
+ * killed.
+ */
+const recycleShutdownTimeoutMs = 10 * 1000;
+
+/**
+ * The requests whose results are only meaningful for the document version they
+ * were computed for. If the document changes while they are pending, they are
+ * answered with a `ContentModified` error instead, which the client handles by
+ * discarding or retrying them.
+ */
+const versionedMethods = new Set([
+  'textDocument/codeAction',
+  'textDocument/codeLens',
+  'textDocument/completion',
+  'textDocument/documentHighlight',
+  'textDocument/documentSymbol',
+  'textDocument/foldingRange',
+  'textDocument/hover',
+  'textDocument/inlayHint',
+  'textDocument/semanticTokens/full',
+  'textDocument/semanticTokens/full/delta',
+  'textDocument/signatureHelp',
+]);
+
+/**
+ * The latency-sensitive read-only requests, which are sent to whichever server
+ * of the folder is the least busy if there's a secondary server.
+ */
+const secondaryServerMethods = new Set([
+  'textDocument/completion',
+  'textDocument/documentHighlight',
+  'textDocument/hover',
+  'textDocument/signatureHelp',
+]);
+
+/**
+ * The server in charge of the documents of a workspace folder, along with the
+ * state needed to restart it independently of the servers of other folders.
+ */
+type FolderServer = {
+  /**
+   * The workspace folder, or undefined if the client didn't send any folder.
+   */
+  folderUri: Optional<URI>;
+  /**
+   * The running server, if any. It's undefined while the server is being
+   * restarted or after giving up on it.
+   */
+  server: Optional<MojoLSPServer>;
+  /**
+   * The secondary server, if enabled and running. It mirrors the documents of
+   * the primary one and shares its lifetime: it's replaced whenever the
+   * primary server is restarted or recycled, and it isn't restarted on its
+   * own after crashing.
+   */
+  secondaryServer: Optional<MojoLSPServer>;
+  /**
+   * Whether the secondary server responded to its initialize request. Until
+   * then, all requests go to the primary server.
+   */
+  secondaryServerInitialized: boolean;
+  restartScheduler: RestartScheduler;
+  /**
+   * The initialization params used to launch the server, which are reused
+   * whenever the server is restarted.
+   */
+  initializeParams: InitializeParams;
+};
 
 /**
  * Class in charge of of managing the communication between the VSCode client
@@ -50,28 +167,78 @@ export class MojoLSPProxy {
    */
   private client: Client;
   /**
-   * The actual Mojo LSP Server. It'll be created as part of the `onInitialize`
-   * method of the proxy.
+   * The actual Mojo LSP Servers, given by their workspace folder, or by an
+   * empty string if there are no folders. The server of the primary folder is
+   * created as part of the `onInitialize` method of the proxy, and the other
+   * ones once a document of their folder is first used.
    */
-  private server: Optional<MojoLSPServer>;
+  private folderToServer = new Map<string, FolderServer>();
+  /**
+   * Maps documents to their workspace folder. It's created as part of the
+   * `initialize` request.
+   */
+  private router: Optional<WorkspaceFolderRouter>;
   /**
    * The state handler for all the documents notified by the client.
    */
   private docsStateHandler: MojoDocumentsStateHandler;
   /**
-   * The time when the proxy was initialized.
+   * The last diagnostics published by the server for each document, which are
+   * shown as stale after a crash.
    */
-  private initTime = Date.now();
+  private diagnosticsCache = new DiagnosticsCache();
   /**
-   * The initialization params used to launch the server. They are gotten from
-   * the client as part of the `initialize` request and have to be reused
-   * whenever the server is restarted.
+   * The responses to idempotent document requests, which are reused while
+   * the document and the server don't change.
+   */
+  private responseCache: ResponseCache;
+  /**
+   * Answers expensive requests on large documents locally.
+   */
+  private largeFileGuard: LargeFileGuard;
+  /**
+   * The statistics of the requests sent to all the servers launched by the
+   * proxy.
+   */
+  private statistics = new RequestStatistics();
+  /**
+   * Whether a crash trigger is being minimized in the background. Only one
+   * minimization runs at a time.
+   */
+  private crashMinimizationInProgress = false;
+  /**
+   * The initialization params gotten from the client as part of the
+   * `initialize` request, from which the params of each server are derived.
    */
   private initializeParams: Optional<InitializeParams>;
+  /**
+   * Whether the client sent the `initialized` notification, after which it
+   * can be notified about the server processes.
+   */
+  private clientInitialized = false;
+  /**
+   * Whether the client asked to shut down, after which the servers exiting
+   * successfully terminate the proxy as well.
+   */
+  private shutdownRequested = false;
+  /**
+   * The options given on the command line, which complete the initialization
+   * options sent by the client.
+   */
+  private commandLineOptions: CommandLineOptions;
 
-  constructor() {
+  constructor(commandLineOptions: CommandLineOptions) {
+    this.commandLineOptions = commandLineOptions;
     this.client = createClientConnection(ProposedFeatures.all);
     this.docsStateHandler = new MojoDocumentsStateHandler(this.client);
+    this.responseCache = new ResponseCache();
+    this.largeFileGuard = new LargeFileGuard((params: LargeFileModeParams) => {
+      this.client.console.log(
+        `Answering expensive requests on ${params.uri} locally, as it has ` +
+          `${params.lineCount} lines and ${params.byteCount} bytes.`,
+      );
+      this.client.sendNotification('mojo/largeFileMode', params);
+    });
     this.registerProxies();
   }
 
@@ -89,6 +256,7 @@ export class MojoLSPProxy {
   private createDiagnosticErrorMessageUponCrash(
     doc: MojoDocument,
     crashTrigger: Optional<URI>,
+    crashBundlePath: Optional<string>,
   ): string {
     let errorMessage = 'A crash happened in the Mojo Language Server';
     if (this.docsStateHandler.isCrashTrigger(doc)) {
@@ -105,34 +273,162 @@ export class MojoLSPProxy {
     }
     errorMessage +=
       ' Please report this issue in ' +
-      'https://github.com/modular/modular/issues along with all the ' +
-      'relevant source codes with their current contents.';
+      'https://github.com/modular/modular/issues along with ';
+    if (crashBundlePath !== undefined) {
+      errorMessage +=
+        'the crash reproduction bundle written to ' + crashBundlePath + '.';
+    } else {
+      errorMessage +=
+        'all the relevant source codes with their current contents.';
+    }
     return errorMessage;
   }
 
   /**
-   * Whenever there's a restart, this clears the diagnostics for each tracked
-   * file and adds one new diagnostic mentioning the crash.
-   * We also mark the possible culprit doc appropriately.
+   * @returns the URI of the document that most likely caused the crash of the
+   *     given server.
    */
-  private prepareTrackedDocsForRestart() {
-    this.docsStateHandler.urisTrackedByServer.clear();
+  private getCrashTriggerUri(server: MojoLSPServer): Optional<URI> {
     // In order to identify the crash trigger, we use the simple heuristic of
     // assuming that the oldest pending request is the one that caused the
     // crash. This should work most the times, as most crashes should originate
     // when the server is processing a request. However, if the crash happens at
     // any other moment, e.g., when reading its stdin, we would need a more
     // complex mechanism to identify the actual issue.
-    const crashTriggerURI = (
-      this.server?.getOldestPendingRequest() as Optional<RequestParamsWithDocument>
+    return (
+      server.getOldestPendingRequest() as Optional<RequestParamsWithDocument>
     )?.textDocument?.uri;
-    for (const doc of this.docsStateHandler.getAllDocs()) {
+  }
+
+  /**
+   * Write a crash reproduction bundle for the server of the given folder, if
+   * enabled by the extension.
+   *
+   * @returns the path to the bundle, if one was written.
+   */
+  private tryWriteCrashBundle(
+    folderServer: FolderServer,
+    status: ExitStatus,
+  ): Optional<string> {
+    const server = folderServer.server!;
+    const options = server.initializationOptions;
+    if (options.crashBundle === undefined) {
+      return undefined;
+    }
+    try {
+      const bundlePath = writeCrashBundle({
+        directory: options.crashBundle.directory,
+        maxCount: options.crashBundle.maxCount,
+        status,
+        initializationOptions: options,
+        crashInfo: server.getCrashInfo(),
+        crashTriggerUri: this.getCrashTriggerUri(server),
+        docs: this.getDocsOfFolder(folderServer),
+      });
+      this.client.console.log(
+        `A crash reproduction bundle was written to ${bundlePath}.`,
+      );
+      return bundlePath;
+    } catch (e) {
+      this.client.console.error(`Couldn't write the crash bundle: ${e}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Start minimizing the document that crashed the server of the given folder
+   * in the background, if enabled by the extension. The result is sent to the
+   * extension with a `mojo/minimizedCrashTrigger` notification. Only actual
+   * crashes are minimized, as hangs detected by the watchdog can't be
+   * reproduced by replaying the document.
+   */
+  private tryMinimizeCrashTrigger(
+    folderServer: FolderServer,
+    status: ExitStatus,
+  ) {
+    const server = folderServer.server!;
+    const options = server.initializationOptions;
+    if (
+      options.crashMinimizer === undefined ||
+      this.crashMinimizationInProgress ||
+      server.isHung() ||
+      (status.code === 0 && status.signal === null)
+    ) {
+      return;
+    }
+    const request = server.getCrashInfo().pendingRequests[0];
+    const params = request?.params as Optional<RequestParamsWithDocument>;
+    // Only regular text documents are minimized, as notebook cells can't be
+    // replayed on their own.
+    const doc = this.docsStateHandler.uriToTextDocs.get(
+      params?.textDocument?.uri ?? '',
+    );
+    if (doc === undefined) {
+      return;
+    }
+
+    this.client.console.log(`Minimizing the crash trigger ${doc.uri}.`);
+    this.crashMinimizationInProgress = true;
+    const minimizer = new CrashMinimizer({
+      initializationOptions: options,
+      initializeParams: folderServer.initializeParams,
+      options: options.crashMinimizer,
+      logger: (message: string) => this.client.console.log(message),
+    });
+    minimizer
+      .minimize(doc.textDocument.languageId, doc.textDocument.getText(), {
+        method: request.method,
+        params: params!,
+      })
+      .then(
+        (text) => {
+          this.crashMinimizationInProgress = false;
+          if (text === undefined) {
+            return;
+          }
+          const minimizedParams: MinimizedCrashTriggerParams = {
+            uri: doc.uri,
+            text,
+          };
+          this.client.sendNotification(
+            'mojo/minimizedCrashTrigger',
+            minimizedParams,
+          );
+        },
+        (e) => {
+          this.crashMinimizationInProgress = false;
+          this.client.console.error(`Couldn't minimize the crash: ${e}`);
+        },
+      );
+  }
+
+  /**
+   * Whenever there's a restart, this republishes the last diagnostics of each
+   * tracked file marked as stale, next to one new diagnostic mentioning the
+   * crash. They are replaced once the new server publishes fresh diagnostics.
+   * We also mark the possible culprit doc appropriately. Only the documents of
+   * the folder of the crashed server are affected.
+   */
+  private prepareTrackedDocsForRestart(
+    folderServer: FolderServer,
+    crashBundlePath: Optional<string>,
+  ) {
+    const crashTriggerURI = this.getCrashTriggerUri(folderServer.server!);
+    // Responses from the crashed server shouldn't outlive it.
+    this.responseCache.clear();
+    for (const doc of this.getDocsOfFolder(folderServer)) {
+      this.docsStateHandler.urisTrackedByServer.delete(doc.uri);
       if (doc.uri === crashTriggerURI) {
         this.docsStateHandler.markAsCrashTrigger(doc);
       }
       const errorMessage = this.createDiagnosticErrorMessageUponCrash(
         doc,
         crashTriggerURI,
+        crashBundlePath,
+      );
+      const staleDiagnostics = this.diagnosticsCache.getStaleDiagnostics(
+        doc.uri,
+        doc.version,
       );
 
       const diagnostic: PublishDiagnosticsParams = {
@@ -145,10 +441,22 @@ export class MojoLSPProxy {
             },
             severity: DiagnosticSeverity.Error,
             source: 'mojo',
+            // This makes the bundle reachable from the Problems panel.
+            ...(crashBundlePath !== undefined && {
+              code: 'crash',
+              codeDescription: {
+                href: pathToFileURL(
+                  path.join(crashBundlePath, crashBundleManifest),
+                ).toString(),
+              },
+            }),
           },
+          ...(staleDiagnostics ?? []),
         ],
         uri: doc.uri,
-        version: doc.version,
+        // Outdated diagnostics are dropped, and the version is left out as the
+        // document changed since the server last checked it.
+        version: staleDiagnostics !== undefined ? doc.version : undefined,
       };
       this.client.sendNotification(
         PublishDiagnosticsNotification.method,
@@ -158,85 +466,685 @@ export class MojoLSPProxy {
   }
 
   /**
-   * Restart the server upon an unsuccessful termination of the server. This
-   * will also issue an initialization request to the new server.
+   * Restart the server upon an unsuccessful termination of the server,
+   * following the restart policy. This will also issue an initialization
+   * request to the new server. If the policy doesn't allow any more restarts,
+   * the folder stays without a server, so that the client isn't terminated.
+   * The servers of other folders are unaffected.
    */
-  private restartServer(status: ExitStatus) {
+  private restartServer(folderServer: FolderServer, status: ExitStatus) {
+    const server = folderServer.server!;
+    const hung = server.isHung();
     this.client.console.log(
-      `The mojo-lsp-server binary exited with signal '${
-        status.signal
-      }' and exit code '${status.code}'.`,
+      `The mojo-lsp-server binary${this.describeFolder(
+        folderServer,
+      )} exited with signal '${status.signal}' and exit code '${
+        status.code
+      }'${hung ? ' after it stopped responding' : ''}.`,
     );
 
-    this.client.sendNotification('mojo/lspRestart');
+    const crashBundlePath = this.tryWriteCrashBundle(folderServer, status);
+    const restartParams: LSPRestartParams = {
+      crashBundlePath,
+      backtrace: server.getCrashInfo().backtrace,
+    };
+    this.client.sendNotification('mojo/lspRestart', restartParams);
 
-    const timeSinceInitInMillis = Date.now() - this.initTime;
-    const timeSinceInitInMins = Math.floor(timeSinceInitInMillis / 60000);
-    // We only allow one restart per minute to prevent VSCode from disabling the
-    // LSP. VSCode allows 4 crashes every 3 minutes.
-    if (timeSinceInitInMins >= 1) {
-      this.client.console.log(
-        `The mojo-lsp-server binary has exited unsuccessfully. The proxy will terminate. It ran ${
-          timeSinceInitInMins
-        } ms.`,
+    this.prepareTrackedDocsForRestart(folderServer, crashBundlePath);
+    this.tryMinimizeCrashTrigger(folderServer, status);
+    server.rejectPendingRequests(
+      new ResponseError(
+        ErrorCodes.InternalError,
+        hung
+          ? 'The Mojo Language Server stopped responding while processing ' +
+              'this request.'
+          : 'The Mojo Language Server crashed while processing this request.',
+      ),
+    );
+    server.dispose();
+    folderServer.server = undefined;
+    this.stopSecondaryServer(
+      folderServer,
+      'The Mojo Language Server crashed while processing this request.',
+    );
+    this.scheduleRestart(folderServer);
+  }
+
+  /**
+   * Relaunch the server of the given folder after it exited successfully
+   * without the client asking to shut down, e.g. after its own shutdown.
+   * Unlike crashes, this doesn't involve crash diagnostics, but it follows the
+   * restart policy all the same, so that a server that keeps exiting isn't
+   * relaunched forever. The documents tracked by the server are reopened on
+   * the new one.
+   */
+  private relaunchServer(folderServer: FolderServer) {
+    const server = folderServer.server!;
+    this.client.console.log(
+      `The mojo-lsp-server binary${this.describeFolder(
+        folderServer,
+      )} exited on its own.`,
+    );
+    this.responseCache.clear();
+    for (const doc of this.getDocsOfFolder(folderServer)) {
+      this.docsStateHandler.urisTrackedByServer.delete(doc.uri);
+    }
+    server.rejectPendingRequests(
+      new ResponseError(
+        ErrorCodes.InternalError,
+        'The Mojo Language Server stopped while processing this request.',
+      ),
+    );
+    server.dispose();
+    folderServer.server = undefined;
+    this.stopSecondaryServer(
+      folderServer,
+      'The Mojo Language Server stopped while processing this request.',
+    );
+    this.scheduleRestart(folderServer);
+  }
+
+  /**
+   * Launch a new server for the given folder, whose server is gone, after the
+   * delay given by the restart policy. If the policy doesn't allow any more
+   * restarts, the folder stays without a server.
+   */
+  private scheduleRestart(folderServer: FolderServer) {
+    const restartScheduler = folderServer.restartScheduler;
+    const delayMs = restartScheduler.scheduleRestart();
+    if (delayMs === undefined) {
+      this.client.console.error(
+        `The mojo-lsp-server binary${this.describeFolder(
+          folderServer,
+        )} exited too many times. It will not be restarted until the ` +
+          'language server is restarted manually.',
       );
+      this.sendServerState(folderServer, {
+        state: 'gaveUp',
+        restartCount: restartScheduler.recentRestartCount,
+      });
+      return;
+    }
 
-      if (status.signal !== null) {
-        process.kill(process.pid, status.signal);
+    const restart = async () => {
+      this.client.console.log(`The mojo-lsp-server will restart.`);
+      this.sendServerState(folderServer, {
+        state: 'restarting',
+        restartCount: restartScheduler.recentRestartCount,
+      });
+      const progress = await this.beginProgress(
+        'Restarting the Mojo Language Server',
+      );
+      try {
+        await this.initializeServer(folderServer);
+        // Crash triggers are only reopened once they are edited.
+        const docs = this.getOwningDocsOfFolder(folderServer).filter(
+          (doc) =>
+            !this.docsStateHandler.isCrashTrigger(doc) &&
+            !this.docsStateHandler.isTrackedByServer(doc),
+        );
+        if (docs.length > 0 && folderServer.server !== undefined) {
+          this.sendServerState(folderServer, {
+            state: 'reopeningDocuments',
+            restartCount: restartScheduler.recentRestartCount,
+          });
+          progress?.report(
+            `Reopening ${docs.length} document${docs.length === 1 ? '' : 's'}`,
+          );
+          this.reopenDocuments(this.getServers(folderServer), docs);
+        }
+      } catch (e) {
+        // A crash during the initialization is handled as any other crash.
+        this.client.console.error(`Couldn't initialize mojo-lsp-server: ${e}`);
+        return;
+      } finally {
+        progress?.done();
       }
-      process.exit(status.code!);
+      this.sendServerState(folderServer, {
+        state: 'running',
+        restartCount: restartScheduler.recentRestartCount,
+      });
+    };
+
+    if (delayMs === 0) {
+      restart();
+      return;
     }
-    this.client.console.log(`The mojo-lsp-server will restart.`);
-    this.prepareTrackedDocsForRestart();
-    this.server!.dispose();
-    this.initializeServer();
+    this.client.console.log(
+      `The mojo-lsp-server will restart in ${delayMs} ms.`,
+    );
+    this.sendServerState(folderServer, {
+      state: 'backingOff',
+      restartCount: restartScheduler.recentRestartCount,
+      delayMs,
+    });
+    setTimeout(restart, delayMs);
   }
 
   /**
-   * Spawn a new server and send the initialization request to it.
+   * Gracefully replace a healthy server with a fresh one. Unlike crashes, this
+   * doesn't involve the restart policy nor crash diagnostics. The documents
+   * tracked by the old server are reopened on the new one.
+   */
+  private async recycleServer(
+    folderServer: FolderServer,
+    oldServer: MojoLSPServer,
+    reason: string,
+  ) {
+    if (oldServer !== folderServer.server) {
+      return;
+    }
+    this.client.console.log(
+      `Recycling the mojo-lsp-server${this.describeFolder(
+        folderServer,
+      )}: ${reason}`,
+    );
+    const recycleParams: LSPRecycleParams = { reason };
+    this.client.sendNotification('mojo/lspRecycle', recycleParams);
+
+    const trackedDocs = this.getOwningDocsOfFolder(folderServer).filter((doc) =>
+      this.docsStateHandler.isTrackedByServer(doc),
+    );
+    for (const doc of trackedDocs) {
+      this.docsStateHandler.markDocAsUntrackedByServer(doc);
+    }
+    this.responseCache.clear();
+    const oldSecondaryServer = folderServer.secondaryServer;
+
+    try {
+      await this.initializeServer(folderServer);
+    } catch (e) {
+      // A crash during the initialization is handled as any other crash.
+      this.client.console.error(`Couldn't initialize mojo-lsp-server: ${e}`);
+    }
+    this.reopenDocuments(this.getServers(folderServer), trackedDocs);
+
+    const stopOldServer = () => {
+      const error = new ResponseError<void>(
+        ErrorCodes.InternalError,
+        'The Mojo Language Server was recycled while processing this request.',
+      );
+      for (const server of [oldServer, oldSecondaryServer]) {
+        server?.rejectPendingRequests(error);
+        server?.dispose();
+      }
+    };
+    const forcedStop = setTimeout(stopOldServer, recycleShutdownTimeoutMs);
+    try {
+      await Promise.all(
+        [oldServer, oldSecondaryServer].map((server) =>
+          server?.sendRequest(undefined, 'shutdown'),
+        ),
+      );
+      oldServer.sendNotification(undefined, 'exit');
+      oldSecondaryServer?.sendNotification(undefined, 'exit');
+    } catch (e) {
+      this.client.console.error(
+        `Couldn't shut down the recycled mojo-lsp-server: ${e}`,
+      );
+      clearTimeout(forcedStop);
+      stopOldServer();
+    }
+  }
+
+  /**
+   * Open the given documents on new servers, unless they were closed or
+   * reopened in the meantime.
+   */
+  private reopenDocuments(
+    servers: MojoLSPServer[],
+    docs: (MojoTextDocument | MojoNotebookDocument)[],
+  ) {
+    if (servers.length === 0) {
+      return;
+    }
+    for (const doc of docs) {
+      if (
+        this.docsStateHandler.getOwningTextOrNotebookDocument(doc.uri) ===
+          doc &&
+        !this.docsStateHandler.isTrackedByServer(doc)
+      ) {
+        doc.openDocumentOnServer(servers, this.docsStateHandler);
+      }
+    }
+  }
+
+  /**
+   * Start reporting progress with the given title to the client.
    *
-   * @returns the response to the initialization request.
+   * @returns the reporter, or undefined if the client couldn't create it.
    */
-  private initializeServer(): Promise<InitializeResult> {
+  private async beginProgress(
+    title: string,
+  ): Promise<Optional<WorkDoneProgressServerReporter>> {
+    try {
+      const progress = await this.client.window.createWorkDoneProgress();
+      progress.begin(title);
+      return progress;
+    } catch (e) {
+      this.client.console.error(`Couldn't report progress: ${e}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Notify the extension about a change in the state of the server of the
+   * given folder.
+   */
+  private sendServerState(
+    folderServer: FolderServer,
+    params: ServerStateParams,
+  ) {
+    this.client.sendNotification('mojo/lspServerState', {
+      ...params,
+      workspaceFolder: folderServer.folderUri,
+    });
+  }
+
+  /**
+   * Notify the extension about the process of the server of the given folder,
+   * unless the client isn't initialized yet.
+   */
+  private sendServerProcess(folderServer: FolderServer) {
+    if (!this.clientInitialized) {
+      return;
+    }
+    const params: ServerProcessParams = {
+      pid: folderServer.server?.getPid(),
+      workspaceFolder: folderServer.folderUri,
+    };
+    this.client.sendNotification('mojo/lspServerProcess', params);
+  }
+
+  /**
+   * @returns a suffix for log messages naming the folder of the given server,
+   *     if there are several folders.
+   */
+  private describeFolder(folderServer: FolderServer): string {
+    return this.folderToServer.size > 1 && folderServer.folderUri !== undefined
+      ? ` for ${folderServer.folderUri}`
+      : '';
+  }
+
+  /**
+   * Log the stderr output of a server with the given severity.
+   */
+  private logStderr(level: LogLevel, message: string) {
+    switch (level) {
+      case 'error':
+        this.client.console.error(message);
+        break;
+      case 'warning':
+        this.client.console.warn(message);
+        break;
+      case 'info':
+        this.client.console.info(message);
+        break;
+      default:
+        this.client.console.log(message);
+    }
+  }
+
+  /**
+   * @returns the running server, or throws an error for the client if the
+   *     server is being restarted.
+   */
+  private getRunningServer(folderServer: FolderServer): MojoLSPServer {
+    if (folderServer.server === undefined) {
+      throw new ResponseError(
+        ErrorCodes.InternalError,
+        'The Mojo Language Server is not running.',
+      );
+    }
+    return folderServer.server;
+  }
+
+  /**
+   * @returns the running servers of the given folder, to which the documents
+   *     of the folder are mirrored. The primary server comes first.
+   */
+  private getServers(folderServer: Optional<FolderServer>): MojoLSPServer[] {
+    if (folderServer?.server === undefined) {
+      return [];
+    }
+    return folderServer.secondaryServer === undefined
+      ? [folderServer.server]
+      : [folderServer.server, folderServer.secondaryServer];
+  }
+
+  /**
+   * @returns the server of the given folder that should handle a request with
+   *     the given method. Latency-sensitive read-only requests go to the
+   *     running server with the fewest pending requests.
+   */
+  private pickServer(folderServer: FolderServer, method: string) {
+    const server = this.getRunningServer(folderServer);
+    const secondaryServer = folderServer.secondaryServer;
+    if (
+      secondaryServer === undefined ||
+      !folderServer.secondaryServerInitialized ||
+      !secondaryServerMethods.has(method) ||
+      secondaryServer.getPendingRequestCount() >=
+        server.getPendingRequestCount()
+    ) {
+      return server;
+    }
+    return secondaryServer;
+  }
+
+  /**
+   * Create the state of the server of the given folder, without launching
+   * it. The initialization options of the folder override the shared ones.
+   */
+  private createFolderServer(folderUri: Optional<URI>): FolderServer {
     const params = this.initializeParams!;
+    const options: InitializationOptions = params.initializationOptions;
+    let initializeParams = params;
+    if (folderUri !== undefined) {
+      const folderOptions = options.workspaceFolderOptions?.find(
+        (candidate) => normalizeFolderUri(candidate.uri) === folderUri,
+      );
+      const { uri, ...overrides } = folderOptions ?? { uri: folderUri };
+      const workspaceFolder = params.workspaceFolders?.find(
+        (candidate) => normalizeFolderUri(candidate.uri) === folderUri,
+      );
+      initializeParams = {
+        ...params,
+        rootUri: folderUri,
+        rootPath: undefined,
+        workspaceFolders: [
+          workspaceFolder ?? { uri, name: path.posix.basename(folderUri) },
+        ],
+        initializationOptions: { ...options, ...overrides },
+      };
+    }
+    const folderServer: FolderServer = {
+      folderUri,
+      server: undefined,
+      secondaryServer: undefined,
+      secondaryServerInitialized: false,
+      restartScheduler: new RestartScheduler(options.restartPolicy),
+      initializeParams,
+    };
+    this.folderToServer.set(folderUri ?? '', folderServer);
+    return folderServer;
+  }
+
+  /**
+   * @returns the server in charge of the workspace folder of the given
+   *     document, or of the primary folder if no document is given. Unless
+   *     `create` is false, servers that don't exist yet are launched.
+   */
+  private getFolderServer(uri: Optional<URI>, create: true): FolderServer;
+  private getFolderServer(
+    uri: Optional<URI>,
+    create: boolean,
+  ): Optional<FolderServer>;
+  private getFolderServer(
+    uri: Optional<URI>,
+    create: boolean,
+  ): Optional<FolderServer> {
+    // Notebook cells belong to the folder of their notebook.
+    const owningUri =
+      uri === undefined
+        ? undefined
+        : (this.docsStateHandler.getOwningTextOrNotebookDocument(uri)?.uri ??
+          uri);
+    const folderUri = this.router!.getFolder(owningUri);
+    let folderServer = this.folderToServer.get(folderUri ?? '');
+    if (folderServer === undefined && create) {
+      folderServer = this.createFolderServer(folderUri);
+      this.startFolderServer(folderServer);
+    }
+    return folderServer;
+  }
+
+  /**
+   * Launch the server of a folder that isn't the primary one, reporting the
+   * progress to the client. The initialization request is sent right away, so
+   * the server can be used before it responds.
+   */
+  private async startFolderServer(folderServer: FolderServer) {
+    const restartCount = folderServer.restartScheduler.recentRestartCount;
+    this.sendServerState(folderServer, { state: 'starting', restartCount });
+    const initialized = this.initializeServer(folderServer).then(
+      () => true,
+      (e) => {
+        // A crash during the initialization is handled as any other crash.
+        this.client.console.error(`Couldn't initialize mojo-lsp-server: ${e}`);
+        return false;
+      },
+    );
+    const progress = await this.beginProgress(
+      `Starting the Mojo Language Server for ${folderServer.folderUri}`,
+    );
+    if (await initialized) {
+      this.sendServerState(folderServer, { state: 'running', restartCount });
+    }
+    progress?.done();
+  }
+
+  /**
+   * @returns the text and notebook documents in the folder of the given
+   *     server, excluding cells.
+   */
+  private getOwningDocsOfFolder(
+    folderServer: FolderServer,
+  ): (MojoTextDocument | MojoNotebookDocument)[] {
+    return [
+      ...this.docsStateHandler.uriToTextDocs.values(),
+      ...this.docsStateHandler.uriToNotebookDocs.values(),
+    ].filter(
+      (doc) =>
+        this.getFolderServer(doc.uri, /*create=*/ false) === folderServer,
+    );
+  }
+
+  /**
+   * Generator for all tracked docs in the folder of the given server,
+   * including cells.
+   */
+  private *getDocsOfFolder(folderServer: FolderServer) {
+    for (const doc of this.docsStateHandler.getAllDocs()) {
+      if (this.getFolderServer(doc.uri, /*create=*/ false) === folderServer) {
+        yield doc;
+      }
+    }
+  }
+
+  /**
+   * Spawn a new server for the given folder and send the initialization
+   * request to it.
+   *
+   * @returns the response to the initialization request.
+   */
+  private initializeServer(
+    folderServer: FolderServer,
+  ): Promise<InitializeResult> {
+    const params = folderServer.initializeParams;
     const workspaceFolder = params.rootUri;
     this.client.console.log(
       `Server(${process.pid}) ${workspaceFolder} started`,
     );
 
-    this.server = new MojoLSPServer({
+    const server = new MojoLSPServer({
       initializationOptions: params.initializationOptions,
       logger: (message: string) => this.client.console.log(message),
       onExit: (status: ExitStatus) => {
+        // Recycled servers are expected to exit on their own.
+        if (server !== folderServer.server) {
+          server.dispose();
+          return;
+        }
         // If the server exited successfully, then that's because a terminate
         // request was sent, so we just terminate the proxy as well.
 
         // If the server exited successfully, then that's because a terminate
         // request was sent, so we just terminate the proxy as well.
-        if (status.code === 0) {
+        if (status.code === 0 && this.shutdownRequested) {
           process.exit(0);
         }
+        // Otherwise, only this folder loses its server, so it's relaunched.
+        if (status.code === 0) {
+          this.relaunchServer(folderServer);
+          return;
+        }
         // There's been an error, we'll try restart the server.
         // There's been an error, we'll try restart the server.
-        this.restartServer(status);
+        this.restartServer(folderServer, status);
+      },
+      onNotification: (method: string, params: any) => {
+        // Recycled servers might still report outdated results.
+        if (server !== folderServer.server) {
+          return;
+        }
+        if (method === PublishDiagnosticsNotification.method) {
+          this.diagnosticsCache.update(
+            params,
+            this.docsStateHandler.getVersionSentToServer(params.uri),
+          );
+        }
+        this.client.sendNotification(method, params);
       },
-      onNotification: (method: string, params: any) =>
-        this.client.sendNotification(method, params),
       onOutgoingRequest: async (
         id: any,
         method: string,
         params: JSONObject,
       ) => {
-        const result = await this.client.sendRequest(method, params);
-        this.server!.sendResponse(id, result);
+        try {
+          const result = await this.client.sendRequest(method, params);
+          server.sendResponse(id, result);
+        } catch (e) {
+          server.sendError(
+            id,
+            e instanceof ResponseError
+              ? e.toJson()
+              : { code: ErrorCodes.InternalError, message: `${e}` },
+          );
+        }
       },
+      statistics: this.statistics,
+      stderrLogger: (level: LogLevel, message: string) =>
+        this.logStderr(level, message),
     });
-    return this.server!.sendRequest(
+    folderServer.server = server;
+    this.sendServerProcess(folderServer);
+    if (params.initializationOptions.secondaryServer) {
+      this.initializeSecondaryServer(folderServer);
+    }
+
+    const memoryMonitorOptions: Optional<MemoryMonitorOptions> =
+      params.initializationOptions.memoryMonitor;
+    const pid = server.getPid();
+    if (memoryMonitorOptions !== undefined && pid !== undefined) {
+      server.pushSubscription(
+        new MemoryMonitor(pid, memoryMonitorOptions, (rssBytes: number) =>
+          this.recycleServer(
+            folderServer,
+            server,
+            `The Mojo Language Server was using ${Math.round(
+              rssBytes / 2 ** 20,
+            )} MB of memory, above the limit of ${Math.round(
+              memoryMonitorOptions.thresholdBytes / 2 ** 20,
+            )} MB.`,
+          ),
+        ),
+      );
+    }
+    return server.sendRequest(
       params,
       'initialize',
     ) as Promise<InitializeResult>;
   }
 
+  /**
+   * Spawn the secondary server of the given folder and send the initialization
+   * request to it. Its notifications are dropped, as the primary server already
+   * publishes the same ones, and only its configuration requests are relayed to
+   * the client.
+   */
+  private initializeSecondaryServer(folderServer: FolderServer) {
+    const params = folderServer.initializeParams;
+    const server = new MojoLSPServer({
+      initializationOptions: params.initializationOptions,
+      logger: (message: string) => this.client.console.log(message),
+      onExit: (status: ExitStatus) => {
+        if (server !== folderServer.secondaryServer) {
+          server.dispose();
+          return;
+        }
+        this.client.console.log(
+          `The secondary mojo-lsp-server binary${this.describeFolder(
+            folderServer,
+          )} exited with signal '${status.signal}' and exit code '${
+            status.code
+          }'. It will be relaunched along with the primary one.`,
+        );
+        this.stopSecondaryServer(
+          folderServer,
+          'The Mojo Language Server crashed while processing this request.',
+        );
+      },
+      onNotification: () => {},
+      onOutgoingRequest: async (
+        id: any,
+        method: string,
+        params: JSONObject,
+      ) => {
+        if (method !== 'workspace/configuration') {
+          server.sendResponse(id, null);
+          return;
+        }
+        try {
+          server.sendResponse(
+            id,
+            await this.client.sendRequest(method, params),
+          );
+        } catch (e) {
+          server.sendError(id, {
+            code: ErrorCodes.InternalError,
+            message: `${e}`,
+          });
+        }
+      },
+      statistics: this.statistics,
+      stderrLogger: (level: LogLevel, message: string) =>
+        this.logStderr(level, message),
+    });
+    folderServer.secondaryServer = server;
+    folderServer.secondaryServerInitialized = false;
+    server.sendRequest(params, 'initialize').then(
+      () => {
+        if (folderServer.secondaryServer === server) {
+          folderServer.secondaryServerInitialized = true;
+        }
+      },
+      (e) => {
+        // A crash during the initialization is handled by `onExit`.
+        this.client.console.error(
+          `Couldn't initialize the secondary mojo-lsp-server: ${e}`,
+        );
+      },
+    );
+  }
+
+  /**
+   * Dispose the secondary server of the given folder, if any, rejecting its
+   * pending requests with the given message.
+   */
+  private stopSecondaryServer(folderServer: FolderServer, message: string) {
+    const server = folderServer.secondaryServer;
+    if (server === undefined) {
+      return;
+    }
+    folderServer.secondaryServer = undefined;
+    folderServer.secondaryServerInitialized = false;
+    server.rejectPendingRequests(
+      new ResponseError(ErrorCodes.InternalError, message),
+    );
+    server.dispose();
+  }
+
   /**
    * Register the individual proxies for all requests and client-sided
    * notifications supports by the mojo-lsp-server.
@@ -244,9 +1152,49 @@ export class MojoLSPProxy {
   private registerProxies() {
     // Initialize request is special because it contains the information we need
     // to launch the actual mojo-lsp-server.
-    this.client.onInitialize(async (params) => {
+    this.client.onInitialize(async (params, _token, workDoneProgress) => {
+      let initializationOptions: InitializationOptions;
+      try {
+        initializationOptions = resolveInitializationOptions(
+          params.initializationOptions,
+          this.commandLineOptions,
+        );
+      } catch (e) {
+        throw new ResponseError(ErrorCodes.InvalidParams, `${e}`);
+      }
+      // The resolved options are stored in the params, so that they are reused
+      // whenever the server is restarted.
+      params.initializationOptions = initializationOptions;
       this.initializeParams = params;
-      return this.initializeServer();
+      this.router = WorkspaceFolderRouter.fromInitializeParams(params);
+      this.docsStateHandler.changeCoalescing =
+        initializationOptions.changeCoalescing;
+      this.largeFileGuard.options = initializationOptions.largeFile;
+      // The capabilities of the server of the primary folder are the ones
+      // advertised to the client.
+      workDoneProgress.begin('Starting the Mojo Language Server');
+      let result: InitializeResult;
+      try {
+        result = await this.initializeServer(
+          this.createFolderServer(this.router.getFolder(undefined)),
+        );
+      } finally {
+        workDoneProgress.done();
+      }
+      this.registerCapabilityProxies(result.capabilities);
+      return {
+        ...result,
+        capabilities: getRelayedCapabilities(result.capabilities),
+      };
+    });
+
+    // The server of the primary folder is launched before the client is
+    // initialized, so its process is reported afterwards.
+    this.client.onInitialized(() => {
+      this.clientInitialized = true;
+      for (const folderServer of this.folderToServer.values()) {
+        this.sendServerProcess(folderServer);
+      }
     });
 
     // Document-based requests
@@ -277,8 +1225,13 @@ export class MojoLSPProxy {
     this.client.onSignatureHelp(
       this.relayRequestWithDocument('textDocument/signatureHelp'),
     );
-    this.client.onShutdown((params) => {
-      return this.server!.sendRequest(params, 'shutdown') as Promise<any>;
+    this.client.onShutdown(async (params) => {
+      this.shutdownRequested = true;
+      await Promise.all(
+        [...this.folderToServer.values()]
+          .flatMap((folderServer) => this.getServers(folderServer))
+          .map((server) => server.sendRequest(params, 'shutdown')),
+      );
     });
     this.client.languages.inlayHint.on(
       this.relayRequestWithDocument('textDocument/inlayHint'),
@@ -292,16 +1245,36 @@ export class MojoLSPProxy {
 
     // Client notifications - normal documents
     this.client.onDidOpenTextDocument((params: DidOpenTextDocumentParams) => {
-      this.docsStateHandler.onDidOpenTextDocument(params, this.server!);
+      this.responseCache.invalidate(params.textDocument.uri);
+      this.docsStateHandler.onDidOpenTextDocument(
+        params,
+        this.getServers(
+          this.getFolderServer(params.textDocument.uri, /*create=*/ true),
+        ),
+      );
     });
 
     this.client.onDidCloseTextDocument((params: DidCloseTextDocumentParams) => {
-      this.docsStateHandler.onDidCloseTextDocument(params, this.server!);
+      this.diagnosticsCache.delete(params.textDocument.uri);
+      this.responseCache.invalidate(params.textDocument.uri);
+      this.largeFileGuard.forget(params.textDocument.uri);
+      this.docsStateHandler.onDidCloseTextDocument(
+        params,
+        this.getServers(
+          this.getFolderServer(params.textDocument.uri, /*create=*/ false),
+        ),
+      );
     });
 
     this.client.onDidChangeTextDocument(
       (params: DidChangeTextDocumentParams) => {
-        this.docsStateHandler.onDidChangeTextDocument(params, this.server!);
+        this.responseCache.invalidate(params.textDocument.uri);
+        this.docsStateHandler.onDidChangeTextDocument(
+          params,
+          this.getServers(
+            this.getFolderServer(params.textDocument.uri, /*create=*/ false),
+          ),
+        );
       },
     );
 
@@ -309,35 +1282,222 @@ export class MojoLSPProxy {
     const notebooks = this.client.notebooks.synchronization;
     notebooks.onDidOpenNotebookDocument(
       (params: DidOpenNotebookDocumentParams) => {
-        this.docsStateHandler.onDidOpenNotebookDocument(params, this.server!);
+        this.docsStateHandler.onDidOpenNotebookDocument(
+          params,
+          this.getServers(
+            this.getFolderServer(params.notebookDocument.uri, /*create=*/ true),
+          ),
+        );
       },
     );
 
     notebooks.onDidCloseNotebookDocument(
       (params: DidCloseNotebookDocumentParams) => {
-        this.docsStateHandler.onDidCloseNotebookDocument(params, this.server!);
+        this.diagnosticsCache.delete(params.notebookDocument.uri);
+        for (const cell of params.cellTextDocuments) {
+          this.diagnosticsCache.delete(cell.uri);
+        }
+        this.docsStateHandler.onDidCloseNotebookDocument(
+          params,
+          this.getServers(
+            this.getFolderServer(
+              params.notebookDocument.uri,
+              /*create=*/ false,
+            ),
+          ),
+        );
       },
     );
 
     notebooks.onDidChangeNotebookDocument(
       (params: DidChangeNotebookDocumentParams) => {
-        this.docsStateHandler.onDidChangeNotebookDocument(params, this.server!);
+        this.docsStateHandler.onDidChangeNotebookDocument(
+          params,
+          this.getServers(
+            this.getFolderServer(
+              params.notebookDocument.uri,
+              /*create=*/ false,
+            ),
+          ),
+        );
+      },
+    );
+
+    this.client.onRequest(
+      'mojo/proxyStats',
+      (params: Optional<ProxyStatsParams>): ProxyStats => {
+        const { hits, misses } = this.responseCache.getStats();
+        const stats: ProxyStats = {
+          ...this.statistics.getStats(),
+          cacheHits: hits,
+          cacheMisses: misses,
+        };
+        if (params?.reset) {
+          this.statistics.reset();
+          this.responseCache.resetStats();
+        }
+        return stats;
+      },
+    );
+
+    this.client.onNotification(
+      'mojo/enableLargeFileFeatures',
+      (params: EnableLargeFileFeaturesParams) => {
+        this.largeFileGuard.override(params.uri);
+        this.refreshExpensiveFeatures();
       },
     );
 
     this.client.onNotification('mojo/emitParsedIR', (params) => {
       this.client.console.log(JSON.stringify(params));
-      this.server!.sendNotification(params, 'mojo/emitParsedIR');
+      this.getFolderServer(
+        params?.uri,
+        /*create=*/ false,
+      )?.server?.sendNotification(params, 'mojo/emitParsedIR');
     });
   }
 
+  /**
+   * Ask the client to request semantic tokens and inlay hints again, if it
+   * supports it, e.g. because they are no longer answered locally.
+   */
+  private refreshExpensiveFeatures() {
+    const capabilities = this.initializeParams?.capabilities.workspace;
+    if (capabilities?.semanticTokens?.refreshSupport) {
+      this.client.languages.semanticTokens.refresh();
+    }
+    if (capabilities?.inlayHint?.refreshSupport) {
+      this.client.languages.inlayHint
+        .refresh()
+        .catch((e) =>
+          this.client.console.error(`Couldn't refresh inlay hints: ${e}`),
+        );
+    }
+  }
+
+  /**
+   * Register the proxies for the requests that are only supported if the
+   * server advertises them in its capabilities.
+   */
+  private registerCapabilityProxies(capabilities: ServerCapabilities) {
+    for (const entry of capabilityMethods) {
+      if (!isAdvertised(entry, capabilities)) {
+        continue;
+      }
+      this.client.onRequest(
+        entry.method,
+        entry.withDocument
+          ? this.relayRequestWithDocument(entry.method)
+          : entry.method === 'workspace/symbol'
+            ? this.relayWorkspaceSymbolRequest()
+            : this.relayRequestWithoutDocument(entry.method),
+      );
+    }
+  }
+
+  /**
+   * Tag the items of the given result with the folder of the server that
+   * produced it, so that resolving them or executing their commands is done by
+   * the same server. Tags are only needed if there are several folders.
+   */
+  private tagResult<T>(
+    method: string,
+    result: T,
+    folderServer: FolderServer,
+  ): T {
+    return this.router!.hasMultipleFolders()
+      ? tagResultOrigin(method, result, folderServer.folderUri)
+      : result;
+  }
+
+  /**
+   * Relay `workspace/symbol` requests to the servers of all folders, merging
+   * their results. The servers that weren't needed by any document yet are
+   * launched first. Servers that fail or aren't running are skipped, unless
+   * all of them do.
+   */
+  private relayWorkspaceSymbolRequest() {
+    const method = 'workspace/symbol';
+    return async (params: WorkspaceSymbolParams, token: CancellationToken) => {
+      if (!this.router!.hasMultipleFolders()) {
+        return this.relayRequestWithoutDocument(method)(params, token);
+      }
+      const folderServers = this.router!.getFolders().map((folderUri) =>
+        this.getFolderServer(folderUri, /*create=*/ true),
+      );
+      this.docsStateHandler.flushAllPendingChanges();
+      const results = await Promise.allSettled(
+        folderServers.map(async (folderServer) =>
+          this.tagResult(
+            method,
+            (await this.getRunningServer(folderServer).sendRequest(
+              params,
+              method,
+              token,
+            )) as unknown[] | null,
+            folderServer,
+          ),
+        ),
+      );
+      if (results.every((result) => result.status === 'rejected')) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      return results.flatMap((result) =>
+        result.status === 'fulfilled' ? (result.value ?? []) : [],
+      ) as any;
+    };
+  }
+
+  /**
+   * This method should be used to relay requests that don't refer to a single
+   * document, e.g. workspace-level requests. They are sent to the server of the
+   * folder that produced the item or command they follow up on, or of the
+   * folder of the item they refer to, if any, or else to the server of the
+   * primary folder. Cancellations from the client are forwarded to the server.
+   */
+  private relayRequestWithoutDocument(method: string) {
+    return (params: RequestParamsWithoutDocument, token: CancellationToken) => {
+      const origin = getResultOrigin(method, params);
+      // Call and type hierarchy requests refer to an item of a document.
+      const folderServer = this.getFolderServer(
+        origin !== undefined
+          ? origin.folderUri
+          : (params as { item?: { uri?: URI } }).item?.uri,
+        /*create=*/ true,
+      );
+      const server = this.getRunningServer(folderServer);
+      // Any document might be involved, so all of them have to be up to date.
+      this.docsStateHandler.flushAllPendingChanges();
+      return server
+        .sendRequest(origin?.params ?? params, method, token)
+        .then((result) => this.tagResult(method, result, folderServer)) as any;
+    };
+  }
+
   /**
    * This method should be used to relay requests that have a `textDocument.uri`
-   * param.
+   * param. They are sent to the server of the folder of the document.
+   * Cancellations from the client are forwarded to the server. Changes
+   * held back for the document are flushed first. The responses to idempotent
+   * requests on regular text documents are cached, and the responses to
+   * requests on outdated document versions are dropped if possible. Expensive
+   * requests on large text documents are answered locally, and
+   * latency-sensitive read-only requests go to the least busy server of the
+   * folder.
    */
   private relayRequestWithDocument(method: string) {
-    return (params: RequestParamsWithDocument) => {
+    return (params: RequestParamsWithDocument, token: CancellationToken) => {
       const uri: URI = params.textDocument.uri;
+      const textDoc = this.docsStateHandler.uriToTextDocs.get(uri);
+      const localResult =
+        textDoc === undefined
+          ? undefined
+          : this.largeFileGuard.getLocalResult(method, textDoc);
+      if (localResult !== undefined) {
+        return localResult as any;
+      }
+      const folderServer = this.getFolderServer(uri, /*create=*/ true);
+      const server = this.pickServer(folderServer, method);
       // If try to run a request on a document that is not tracked by the
       // server, then we need to reopen it because we just had a crash recently.
       // However, if it's a crash trigger, we don't reopen it and wait for edits
@@ -350,9 +1510,46 @@ export class MojoLSPProxy {
         !this.docsStateHandler.isCrashTrigger(owningDoc) &&
         !this.docsStateHandler.isTrackedByServer(owningDoc)
       ) {
-        owningDoc.openDocumentOnServer(this.server!, this.docsStateHandler);
+        owningDoc.openDocumentOnServer(
+          this.getServers(folderServer),
+          this.docsStateHandler,
+        );
+      }
+      // Results must reflect the latest contents of the document.
+      this.docsStateHandler.flushPendingChanges(uri);
+      const sendRequest = () =>
+        server
+          .sendRequest(params, method, token)
+          .then((result) => this.tagResult(method, result, folderServer));
+      // Notebook cells aren't cached, as their results also depend on the
+      // other cells of the notebook.
+      const response =
+        textDoc === undefined || !ResponseCache.isCached(method)
+          ? sendRequest()
+          : this.responseCache.getOrSend(
+              method,
+              params,
+              textDoc.version,
+              sendRequest,
+            );
+      if (owningDoc === undefined || !versionedMethods.has(method)) {
+        return response as any;
       }
-      return this.server!.sendRequest(params, method) as any;
+
+      const version = owningDoc.version;
+      return response.then((result) => {
+        if (
+          owningDoc.version !== version ||
+          this.docsStateHandler.getOwningTextOrNotebookDocument(uri) !==
+            owningDoc
+        ) {
+          throw new ResponseError(
+            LSPErrorCodes.ContentModified,
+            'The document was modified while processing this request.',
+          );
+        }
+        return result;
+      }) as any;
     };
   }
 }
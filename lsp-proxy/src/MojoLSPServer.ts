@@ -13,8 +13,15 @@
 
 import { ChildProcess, spawn } from 'child_process';
 import { firstValueFrom, Subject } from 'rxjs';
+import {
+  CancellationToken,
+  LSPErrorCodes,
+  ResponseError,
+} from 'vscode-languageserver-protocol';
 
 import { DisposableCallback, DisposableContext } from './DisposableContext';
+import { RequestOutcome, RequestStatistics } from './RequestStatistics';
+import { LogLevel, StderrParser } from './StderrParser';
 import {
   JSONRPCStream,
   LineSeparatedStream,
@@ -27,14 +34,37 @@ import {
   Optional,
   RequestId,
   RequestParams,
+  ServerCrashInfo,
 } from './types';
 
 const protocolHeader = 'Content-Length: ';
 const protocolLineSeparator = '\r\n\r\n';
 
+/**
+ * @returns the error used to reject requests cancelled by the client.
+ */
+function createRequestCancelledError(): ResponseError<void> {
+  return new ResponseError(LSPErrorCodes.RequestCancelled, 'Request cancelled');
+}
+
+/**
+ * The number of stderr lines kept to diagnose crashes.
+ */
+const stderrTailLength = 200;
+
+/**
+ * The maximum interval between checks of the watchdog.
+ */
+const maxWatchdogIntervalMs = 1000;
+
 type PendingRequest = {
+  method: string;
   params: RequestParams;
   responseStream: Subject<JSONObject>;
+  /**
+   * When the request was sent, used to detect hung servers.
+   */
+  startTime: number;
 };
 
 /**
@@ -45,12 +75,46 @@ export class MojoLSPServer extends DisposableContext {
   private serverProcess: ChildProcess;
   private lastSentRequestId: RequestId = -1;
   private pendingRequests = new Map<RequestId, PendingRequest>();
+  /**
+   * The options used to spawn the server.
+   */
+  public readonly initializationOptions: InitializationOptions;
+  /**
+   * The last packets sent to the server, oldest first.
+   */
+  private recentPackets: JSONObject[] = [];
+  /**
+   * The maximum number of packets kept in `recentPackets`.
+   */
+  private recentPacketsLimit: number;
+  /**
+   * The last lines written by the server to stderr, oldest first.
+   */
+  private stderrTail: string[] = [];
+  /**
+   * Classifies the stderr output of the server and recognizes crash
+   * backtraces.
+   */
+  private stderrParser: StderrParser;
+  /**
+   * Where the requests sent to the server are recorded, if anywhere.
+   */
+  private statistics: Optional<RequestStatistics>;
+  /**
+   * Whether the watchdog killed the server because it stopped responding.
+   */
+  private hung = false;
   /**
    * @param initializationOptions The options needed to spawn the
    *     mojo-lsp-server.
    * @param logger The callback used to log messages to the LSP output channel.
    *     This logger is expected to append a newline after each invocation.
+   * @param stderrLogger The callback used to log the stderr output of the
+   *     server with its severity. Crash backtraces are logged as a single
+   *     message. The output is sent to `logger` if missing.
    * @param onExit A callback invoked whenever the server exits.
+   * @param statistics Where the requests sent to the server are recorded.
+   *     They are not recorded if missing.
    */
   constructor({
     initializationOptions,
@@ -58,15 +122,23 @@ export class MojoLSPServer extends DisposableContext {
     onExit,
     onNotification,
     onOutgoingRequest,
+    statistics,
+    stderrLogger,
   }: {
     initializationOptions: InitializationOptions;
     logger: (message: string) => void;
     onExit: (status: ExitStatus) => void;
     onNotification: (method: string, params: JSONObject) => void;
     onOutgoingRequest: (id: any, method: string, params: JSONObject) => void;
+    statistics?: RequestStatistics;
+    stderrLogger?: (level: LogLevel, message: string) => void;
   }) {
     super();
 
+    this.initializationOptions = initializationOptions;
+    this.statistics = statistics;
+    this.recentPacketsLimit =
+      initializationOptions.crashBundle?.messageCount ?? 0;
     this.serverProcess = spawn(
       initializationOptions.serverPath,
       initializationOptions.serverArgs,
@@ -74,23 +146,49 @@ export class MojoLSPServer extends DisposableContext {
         env: initializationOptions.serverEnv,
       },
     );
+    this.stderrParser = new StderrParser(
+      stderrLogger ?? ((_level: LogLevel, message: string) => logger(message)),
+    );
     this.pushSubscription(
-      new LineSeparatedStream(this.serverProcess.stderr!, (line: string) =>
-        logger(line),
-      ),
+      new LineSeparatedStream(this.serverProcess.stderr!, (line: string) => {
+        this.stderrTail.push(line);
+        if (this.stderrTail.length > stderrTailLength) {
+          this.stderrTail.shift();
+        }
+        this.stderrParser.push(line);
+      }),
     );
     this.pushSubscription(
       new JSONRPCStream(
         this.serverProcess.stdout!,
         (response: JSONObject) =>
-          this.pendingRequests.get(response.id)!.responseStream.next(response),
+          // Responses to cancelled requests might still arrive, but nobody is
+          // waiting for them anymore.
+          this.pendingRequests.get(response.id)?.responseStream.next(response),
         (notification: JSONObject) =>
           onNotification(notification.method, notification.params),
         (request: JSONObject) =>
           onOutgoingRequest(request.id, request.method, request.params),
+        logger,
       ),
     );
-    this.pushSubscription(new ProcessExitStream(this.serverProcess, onExit));
+    this.pushSubscription(
+      new ProcessExitStream(this.serverProcess, (status: ExitStatus) => {
+        // Backtraces end when the server dies.
+        this.stderrParser.flush();
+        onExit(status);
+      }),
+    );
+    const watchdog = initializationOptions.watchdog;
+    if (watchdog !== undefined) {
+      const interval = setInterval(
+        () => this.checkIfHung(watchdog.timeoutMs, logger),
+        Math.min(watchdog.timeoutMs, maxWatchdogIntervalMs),
+      );
+      this.pushSubscription(
+        new DisposableCallback(() => clearInterval(interval)),
+      );
+    }
     this.pushSubscription(
       new DisposableCallback(() => {
         // We kill the server process after all listeners have been disposed, to
@@ -107,22 +205,119 @@ export class MojoLSPServer extends DisposableContext {
   /**
    * Send a request to the server given its params and a method name that
    * follows the LSP protocol.
+   *
+   * @param token An optional token of the client request that originated this
+   *     request. Cancelling it forwards a `$/cancelRequest` for the server-side
+   *     request id, which is the only link between both ids.
    * @returns a promise with the payload that gets resolved when the request is
-   *     responded.
+   *     responded. It's rejected with the error sent by the server, if any, or
+   *     with a `RequestCancelled` error if the request is cancelled first.
    */
   public async sendRequest(
     params: RequestParams,
     method: string,
+    token?: CancellationToken,
   ): Promise<JSONObject> {
+    if (token?.isCancellationRequested) {
+      throw createRequestCancelledError();
+    }
     const request = this.wrapRequest(params, method);
     const id = request.id;
-    await this.sendPacket(request);
 
+    // The request needs to be pending before it's sent, otherwise a fast
+    // response might arrive when nobody is waiting for it.
     const subject = new Subject<any>();
-    this.pendingRequests.set(id, { params: params, responseStream: subject });
-    const result = (await firstValueFrom(subject)).result;
+    this.pendingRequests.set(id, {
+      method: method,
+      params: params,
+      responseStream: subject,
+      startTime: Date.now(),
+    });
+    const cancellationListener = token?.onCancellationRequested(() =>
+      this.cancelRequest(id),
+    );
+    const endTracking = this.statistics?.trackRequest(method);
+
+    let outcome: RequestOutcome = 'failed';
+    try {
+      await this.sendPacket(request);
+      const response = await firstValueFrom(subject);
+      if (response.error !== undefined) {
+        throw new ResponseError(
+          response.error.code,
+          response.error.message,
+          response.error.data,
+        );
+      }
+      outcome = 'succeeded';
+      return response.result;
+    } catch (e) {
+      if (
+        e instanceof ResponseError &&
+        e.code === LSPErrorCodes.RequestCancelled
+      ) {
+        outcome = 'cancelled';
+      }
+      throw e;
+    } finally {
+      endTracking?.(outcome);
+      cancellationListener?.dispose();
+      this.pendingRequests.delete(id);
+    }
+  }
+
+  /**
+   * Cancel a pending request. The server is notified with a `$/cancelRequest`
+   * notification and the request is immediately rejected with a
+   * `RequestCancelled` error, regardless of whether the server honors the
+   * cancellation.
+   */
+  private cancelRequest(id: RequestId): void {
+    const pendingRequest = this.pendingRequests.get(id);
+    if (pendingRequest === undefined) {
+      return;
+    }
     this.pendingRequests.delete(id);
-    return result;
+    this.sendNotification({ id }, '$/cancelRequest');
+    pendingRequest.responseStream.error(createRequestCancelledError());
+  }
+
+  /**
+   * Kill the server if its oldest pending request has been waiting for longer
+   * than the given timeout. The exit is then reported as any other crash.
+   */
+  private checkIfHung(timeoutMs: number, logger: (message: string) => void) {
+    if (this.hung) {
+      return;
+    }
+    for (const request of this.pendingRequests.values()) {
+      const elapsedMs = Date.now() - request.startTime;
+      if (elapsedMs <= timeoutMs) {
+        return;
+      }
+      logger(
+        `The mojo-lsp-server binary didn't respond to '${
+          request.method
+        }' in ${elapsedMs} ms and is considered hung.`,
+      );
+      this.hung = true;
+      this.serverProcess.kill('SIGKILL');
+      return;
+    }
+  }
+
+  /**
+   * @returns the id of the server process, if it was spawned successfully.
+   */
+  public getPid(): Optional<number> {
+    return this.serverProcess.pid;
+  }
+
+  /**
+   * @returns whether the server was killed because it stopped responding.
+   */
+  public isHung(): boolean {
+    return this.hung;
   }
 
   /**
@@ -162,6 +357,12 @@ export class MojoLSPServer extends DisposableContext {
    * protocol.
    */
   private async sendPacket<T>(packet: T): Promise<void> {
+    if (this.recentPacketsLimit > 0) {
+      this.recentPackets.push(packet as JSONObject);
+      if (this.recentPackets.length > this.recentPacketsLimit) {
+        this.recentPackets.shift();
+      }
+    }
     const payload = Buffer.from(JSON.stringify(packet));
     return new Promise((resolve, _reject) => {
       return this.serverProcess.stdin?.write(
@@ -208,6 +409,45 @@ export class MojoLSPServer extends DisposableContext {
     };
   }
 
+  /**
+   * Reject all pending requests with the given error. This is used when the
+   * server can't respond anymore, e.g. after a crash.
+   */
+  public rejectPendingRequests(error: ResponseError<void>): void {
+    const pendingRequests = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    for (const pendingRequest of pendingRequests) {
+      pendingRequest.responseStream.error(error);
+    }
+  }
+
+  /**
+   * @returns a snapshot of the state of the server that is useful to reproduce
+   *     a crash.
+   */
+  public getCrashInfo(): ServerCrashInfo {
+    return {
+      pid: this.serverProcess.pid,
+      pendingRequests: [...this.pendingRequests.entries()].map(
+        ([id, request]) => ({
+          id,
+          method: request.method,
+          params: request.params,
+        }),
+      ),
+      recentPackets: [...this.recentPackets],
+      stderrTail: [...this.stderrTail],
+      backtrace: this.stderrParser.getLastBacktrace(),
+    };
+  }
+
+  /**
+   * @returns the number of requests the server hasn't responded yet.
+   */
+  public getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
   /**
    * @returns the params of the oldest pending request.
    */
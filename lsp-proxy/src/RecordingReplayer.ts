@@ -0,0 +1,383 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { isDeepStrictEqual } from 'util';
+import {
+  ErrorCodes,
+  InitializeParams,
+  LSPErrorCodes,
+  ResponseError,
+} from 'vscode-languageserver-protocol';
+
+import { MojoLSPServer } from './MojoLSPServer';
+import {
+  ExitStatus,
+  InitializationOptions,
+  Optional,
+  RecordedMessage,
+  ReplayReport,
+} from './types';
+
+/**
+ * The options of a replay.
+ */
+export type ReplayOptions = {
+  /**
+   * Whether to wait between messages as long as in the recorded session.
+   * Otherwise, messages are sent as fast as possible.
+   */
+  keepTiming: boolean;
+  /**
+   * The time after which a request that wasn't responded is reported as a
+   * timeout.
+   */
+  timeoutMs: number;
+};
+
+/**
+ * The recorded errors that depend on the timing of the session rather than on
+ * the server, whose requests aren't compared.
+ */
+const transientErrorCodes = new Set<number>([
+  LSPErrorCodes.RequestCancelled,
+  LSPErrorCodes.ContentModified,
+  LSPErrorCodes.ServerCancelled,
+]);
+
+/**
+ * The outcome of a request, in the form it's compared with the recorded one.
+ */
+type RequestOutcome =
+  | { result: unknown }
+  | { error: { code: number; message: string } };
+
+/**
+ * Parse a session recording written by the extension. Version 1 recordings,
+ * which only have the requests and notifications of the client without
+ * timestamps, are converted to version 2 messages.
+ *
+ * @throws if a line isn't valid JSON.
+ */
+export function parseRecording(text: string): RecordedMessage[] {
+  const messages: RecordedMessage[] = [];
+  let lastRequestId = 0;
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Invalid JSON on line ${index + 1} of the recording.`);
+    }
+    if (entry.kind === 'header') {
+      return;
+    }
+    if (entry.kind !== undefined) {
+      messages.push(entry);
+      return;
+    }
+    // Version 1 entries have a `type` and a `param`, and the method might be a
+    // whole message signature.
+    const method =
+      typeof entry.method === 'string' ? entry.method : entry.method?.method;
+    messages.push({
+      kind: entry.type === 'request' ? 'request' : 'notification',
+      direction: 'clientToServer',
+      timeMs: 0,
+      id: entry.type === 'request' ? ++lastRequestId : undefined,
+      method,
+      params: entry.param,
+    });
+  });
+  return messages;
+}
+
+/**
+ * @returns a promise resolved after the given delay.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
+
+/**
+ * Class that replays the client side of a recorded session against a fresh
+ * server, in order, and compares the new responses with the recorded ones.
+ * Crashes, timeouts and differences are reported.
+ */
+export class RecordingReplayer {
+  private initializationOptions: InitializationOptions;
+  private options: ReplayOptions;
+  private logger: (message: string) => void;
+
+  constructor({
+    initializationOptions,
+    options,
+    logger,
+  }: {
+    initializationOptions: InitializationOptions;
+    options: ReplayOptions;
+    logger: (message: string) => void;
+  }) {
+    // Hangs are reported as timeouts instead of killing the server.
+    this.initializationOptions = {
+      ...initializationOptions,
+      crashBundle: undefined,
+      watchdog: undefined,
+    };
+    this.options = options;
+    this.logger = logger;
+  }
+
+  /**
+   * Replay the given recorded messages.
+   *
+   * @returns the outcome of the replay.
+   */
+  public async replay(messages: RecordedMessage[]): Promise<ReplayReport> {
+    const report: ReplayReport = {
+      serverPath: this.initializationOptions.serverPath,
+      messageCount: 0,
+      requestCount: 0,
+      comparedCount: 0,
+      differences: [],
+      timeouts: [],
+    };
+    const recordedResponses = new Map<number | string, RecordedMessage>();
+    for (const message of messages) {
+      // Responses of the client to the requests of the server aren't
+      // compared, and their ids might clash with the ones of the client.
+      if (
+        message.kind === 'response' &&
+        message.direction === 'serverToClient' &&
+        message.id !== undefined
+      ) {
+        recordedResponses.set(message.id, message);
+      }
+    }
+    const clientMessages = messages.filter(
+      (message) =>
+        message.direction === 'clientToServer' && message.kind !== 'response',
+    );
+    // The replay starts right away, regardless of when the first message was
+    // recorded.
+    const recordedStartTimeMs = clientMessages[0]?.timeMs ?? 0;
+
+    let finished = false;
+    let onCrash: () => void;
+    const crashed = new Promise<void>((resolve) => (onCrash = resolve));
+    const server: MojoLSPServer = new MojoLSPServer({
+      initializationOptions: this.initializationOptions,
+      logger: this.logger,
+      onExit: (status: ExitStatus) => {
+        if (finished) {
+          return;
+        }
+        const crashInfo = server.getCrashInfo();
+        report.crash = {
+          status,
+          method: crashInfo.pendingRequests[0]?.method,
+          backtrace: crashInfo.backtrace,
+        };
+        this.logger(
+          `The server exited with signal '${status.signal}' and exit code ` +
+            `'${status.code}' during the replay.`,
+        );
+        server.rejectPendingRequests(
+          new ResponseError(ErrorCodes.InternalError, 'The server crashed.'),
+        );
+        onCrash();
+      },
+      onNotification: () => {},
+      onOutgoingRequest: (id: any) => server.sendResponse(id, null),
+    });
+
+    try {
+      // Recordings usually start once the client is initialized, so the
+      // server is initialized on their behalf unless they include it.
+      if (clientMessages[0]?.method !== 'initialize') {
+        const initializeParams: InitializeParams = {
+          processId: process.pid,
+          rootUri: null,
+          capabilities: {},
+        };
+        clientMessages.unshift(
+          {
+            kind: 'request',
+            direction: 'clientToServer',
+            timeMs: 0,
+            method: 'initialize',
+            params: initializeParams,
+          },
+          {
+            kind: 'notification',
+            direction: 'clientToServer',
+            timeMs: 0,
+            method: 'initialized',
+            params: {},
+          },
+        );
+      }
+      this.logger(
+        `Replaying ${clientMessages.length} messages against ${report.serverPath}.`,
+      );
+
+      const startTimeMs = Date.now();
+      const pendingRequests: Promise<void>[] = [];
+      for (const message of clientMessages) {
+        if (report.crash !== undefined) {
+          break;
+        }
+        if (this.options.keepTiming) {
+          await delay(
+            message.timeMs - recordedStartTimeMs - (Date.now() - startTimeMs),
+          );
+        }
+        report.messageCount++;
+        if (message.kind === 'notification') {
+          server.sendNotification(message.params, message.method);
+          continue;
+        }
+        report.requestCount++;
+        const request = this.replayRequest(
+          server,
+          message,
+          recordedResponses.get(message.id!),
+          report,
+        );
+        // The server must be initialized before anything else is sent.
+        if (message.method === 'initialize') {
+          await request;
+        } else {
+          pendingRequests.push(request);
+        }
+      }
+      await Promise.race([Promise.all(pendingRequests), crashed]);
+
+      if (report.crash === undefined) {
+        finished = true;
+        await Promise.race([
+          server.sendRequest(undefined, 'shutdown').catch(() => {}),
+          delay(this.options.timeoutMs),
+        ]);
+        server.sendNotification(undefined, 'exit');
+      }
+    } finally {
+      finished = true;
+      server.dispose();
+    }
+    return report;
+  }
+
+  /**
+   * Send a recorded request to the server and compare its response with the
+   * recorded one, if any.
+   */
+  private async replayRequest(
+    server: MojoLSPServer,
+    message: RecordedMessage,
+    recordedResponse: Optional<RecordedMessage>,
+    report: ReplayReport,
+  ): Promise<void> {
+    const actual = await Promise.race([
+      server.sendRequest(message.params as any, message.method).then(
+        (result): RequestOutcome => ({ result: result ?? null }),
+        (e): RequestOutcome => ({
+          error:
+            e instanceof ResponseError
+              ? { code: e.code, message: e.message }
+              : { code: ErrorCodes.InternalError, message: `${e}` },
+        }),
+      ),
+      delay(this.options.timeoutMs).then(() => undefined),
+    ]);
+    // Requests interrupted by a crash are covered by the crash itself.
+    if (report.crash !== undefined) {
+      return;
+    }
+    const id = message.id ?? message.method;
+    if (actual === undefined) {
+      this.logger(`'${message.method}' (${id}) timed out.`);
+      report.timeouts.push({ id, method: message.method });
+      return;
+    }
+    if (
+      recordedResponse === undefined ||
+      (recordedResponse.error !== undefined &&
+        transientErrorCodes.has(recordedResponse.error.code))
+    ) {
+      return;
+    }
+
+    report.comparedCount++;
+    const recorded: RequestOutcome =
+      recordedResponse.error !== undefined
+        ? {
+            error: {
+              code: recordedResponse.error.code,
+              message: recordedResponse.error.message,
+            },
+          }
+        : { result: recordedResponse.result ?? null };
+    if (!isDeepStrictEqual(recorded, actual)) {
+      this.logger(`'${message.method}' (${id}) responded differently.`);
+      report.differences.push({ id, method: message.method, recorded, actual });
+    }
+  }
+}
+
+/**
+ * @returns whether the replay found any crash, timeout or difference.
+ */
+export function hasReplayProblems(report: ReplayReport): boolean {
+  return (
+    report.crash !== undefined ||
+    report.timeouts.length > 0 ||
+    report.differences.length > 0
+  );
+}
+
+/**
+ * @returns a human-readable summary of the given replay report.
+ */
+export function formatReplayReport(report: ReplayReport): string {
+  const lines = [
+    `Replayed ${report.messageCount} messages (${report.requestCount} ` +
+      `requests) against ${report.serverPath}.`,
+    `${report.comparedCount} responses compared, ` +
+      `${report.differences.length} differences, ` +
+      `${report.timeouts.length} timeouts.`,
+  ];
+  if (report.crash !== undefined) {
+    const { status, method, backtrace } = report.crash;
+    lines.push(
+      `The server crashed with signal '${status.signal}' and exit code ` +
+        `'${status.code}'${method !== undefined ? ` while processing '${method}'` : ''}.`,
+    );
+    if (backtrace !== undefined) {
+      lines.push(backtrace.text);
+    }
+  }
+  for (const { id, method } of report.timeouts) {
+    lines.push(`Timeout: '${method}' (${id}).`);
+  }
+  for (const { id, method, recorded, actual } of report.differences) {
+    lines.push(
+      `Difference: '${method}' (${id})`,
+      `  recorded: ${JSON.stringify(recorded)}`,
+      `  actual:   ${JSON.stringify(actual)}`,
+    );
+  }
+  return lines.join('\n');
+}
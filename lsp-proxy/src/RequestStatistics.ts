@@ -0,0 +1,176 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { MethodStats, Optional, ProxyStats } from './types';
+
+/**
+ * The number of most recent latencies kept per method to compute percentiles.
+ */
+const latencySampleLimit = 1000;
+
+/**
+ * Requests that are pending for longer than this are counted as timed out,
+ * even if they are eventually responded.
+ */
+const requestTimeoutMs = 10 * 1000;
+
+/**
+ * How a request sent to the server ended.
+ */
+export type RequestOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+type MethodRecord = {
+  count: number;
+  errors: number;
+  cancellations: number;
+  timeouts: number;
+  inFlight: number;
+  /**
+   * The latencies of the most recent responded requests, oldest first.
+   */
+  latenciesMs: number[];
+};
+
+function createMethodRecord(inFlight: number): MethodRecord {
+  return {
+    count: 0,
+    errors: 0,
+    cancellations: 0,
+    timeouts: 0,
+    inFlight,
+    latenciesMs: [],
+  };
+}
+
+/**
+ * @returns the given percentile of the sorted samples, using the nearest-rank
+ *     method.
+ */
+function percentile(sortedSamples: number[], p: number): Optional<number> {
+  if (sortedSamples.length === 0) {
+    return undefined;
+  }
+  const rank = Math.ceil((p / 100) * sortedSamples.length);
+  return sortedSamples[Math.max(rank - 1, 0)];
+}
+
+/**
+ * Class that records per-method statistics about the requests sent to the
+ * server. It outlives individual servers, so that statistics survive restarts.
+ */
+export class RequestStatistics {
+  private methodToRecord = new Map<string, MethodRecord>();
+  private inFlight = 0;
+  private maxInFlight = 0;
+  private startTime = Date.now();
+
+  private getRecord(method: string): MethodRecord {
+    let record = this.methodToRecord.get(method);
+    if (record === undefined) {
+      record = createMethodRecord(0);
+      this.methodToRecord.set(method, record);
+    }
+    return record;
+  }
+
+  /**
+   * Start tracking a request sent to the server.
+   *
+   * @returns a callback to be invoked once the request ends. Further
+   *     invocations are ignored.
+   */
+  public trackRequest(method: string): (outcome: RequestOutcome) => void {
+    this.getRecord(method).inFlight++;
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    const start = Date.now();
+    // Records are looked up again, as they might have been reset while the
+    // request was pending.
+    const timeout = setTimeout(
+      () => this.getRecord(method).timeouts++,
+      requestTimeoutMs,
+    );
+
+    let ended = false;
+    return (outcome: RequestOutcome) => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      clearTimeout(timeout);
+      this.inFlight--;
+
+      const record = this.getRecord(method);
+      record.inFlight--;
+      record.count++;
+      if (outcome === 'cancelled') {
+        record.cancellations++;
+        return;
+      }
+      if (outcome === 'failed') {
+        record.errors++;
+      }
+      record.latenciesMs.push(Date.now() - start);
+      if (record.latenciesMs.length > latencySampleLimit) {
+        record.latenciesMs.shift();
+      }
+    };
+  }
+
+  /**
+   * @returns a snapshot of the statistics since the last reset.
+   */
+  public getStats(): Omit<ProxyStats, 'cacheHits' | 'cacheMisses'> {
+    const elapsedMs = Date.now() - this.startTime;
+    const methods: MethodStats[] = [...this.methodToRecord.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([method, record]) => {
+        const sortedLatencies = [...record.latenciesMs].sort((a, b) => a - b);
+        return {
+          method,
+          count: record.count,
+          errors: record.errors,
+          cancellations: record.cancellations,
+          timeouts: record.timeouts,
+          inFlight: record.inFlight,
+          requestsPerSecond:
+            elapsedMs > 0 ? record.count / (elapsedMs / 1000) : 0,
+          p50Ms: percentile(sortedLatencies, 50),
+          p95Ms: percentile(sortedLatencies, 95),
+          p99Ms: percentile(sortedLatencies, 99),
+        };
+      });
+    return {
+      elapsedMs,
+      inFlight: this.inFlight,
+      maxInFlight: this.maxInFlight,
+      methods,
+    };
+  }
+
+  /**
+   * Forget all statistics. Requests that are still in flight keep being
+   * tracked.
+   */
+  public reset(): void {
+    for (const [method, record] of this.methodToRecord) {
+      if (record.inFlight > 0) {
+        this.methodToRecord.set(method, createMethodRecord(record.inFlight));
+      } else {
+        this.methodToRecord.delete(method);
+      }
+    }
+    this.maxInFlight = this.inFlight;
+    this.startTime = Date.now();
+  }
+}
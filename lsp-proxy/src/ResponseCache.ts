@@ -0,0 +1,111 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { RequestParamsWithDocument, URI } from './types';
+
+/**
+ * The requests whose responses only depend on the contents of the document,
+ * so they can be reused while the document doesn't change.
+ */
+const cachedMethods = new Set([
+  'textDocument/documentSymbol',
+  'textDocument/foldingRange',
+  'textDocument/semanticTokens/full',
+  'textDocument/inlayHint',
+]);
+
+/**
+ * Class that memoizes the responses of the server to idempotent document
+ * requests, keyed by the document URI and version and the request params.
+ */
+export class ResponseCache {
+  private uriToResponses = new Map<URI, Map<string, unknown>>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @returns whether the responses to the given method are cached.
+   */
+  public static isCached(method: string): boolean {
+    return cachedMethods.has(method);
+  }
+
+  /**
+   * @returns the cached response to the given request, or the response
+   *     obtained from `sendRequest`, which is cached if it succeeds.
+   */
+  public async getOrSend(
+    method: string,
+    params: RequestParamsWithDocument,
+    version: number,
+    sendRequest: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const uri = params.textDocument.uri;
+    // Progress tokens differ between otherwise identical requests.
+    const { workDoneToken, partialResultToken, ...keyParams } =
+      params as RequestParamsWithDocument & {
+        workDoneToken?: unknown;
+        partialResultToken?: unknown;
+      };
+    const key = JSON.stringify([method, version, keyParams]);
+
+    let responses = this.uriToResponses.get(uri);
+    if (responses?.has(key)) {
+      this.hits++;
+      return responses.get(key);
+    }
+    this.misses++;
+    if (responses === undefined) {
+      responses = new Map();
+      this.uriToResponses.set(uri, responses);
+    }
+
+    const response = await sendRequest();
+    // Responses that arrive after the cache was invalidated are dropped.
+    if (this.uriToResponses.get(uri) === responses) {
+      responses.set(key, response);
+    }
+    return response;
+  }
+
+  /**
+   * Drop the cached responses for the given document, e.g. because it was
+   * edited or closed.
+   */
+  public invalidate(uri: URI): void {
+    this.uriToResponses.delete(uri);
+  }
+
+  /**
+   * Drop all cached responses, e.g. because the server was restarted.
+   */
+  public clear(): void {
+    this.uriToResponses.clear();
+  }
+
+  /**
+   * @returns the number of requests answered from the cache and the number of
+   *     requests sent to the server since the last reset.
+   */
+  public getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Reset the hit and miss counts.
+   */
+  public resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
@@ -0,0 +1,76 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { Optional, RestartPolicy } from './types';
+
+/**
+ * The policy used when the extension doesn't provide one.
+ */
+export const defaultRestartPolicy: RestartPolicy = {
+  maxRestarts: 5,
+  windowMs: 3 * 60 * 1000,
+  initialBackoffMs: 500,
+  maxBackoffMs: 30 * 1000,
+};
+
+/**
+ * Class that decides whether and when a crashed server should be restarted,
+ * based on the restarts that happened recently.
+ */
+export class RestartScheduler {
+  private policy: RestartPolicy;
+  /**
+   * The times of the restarts within the current window, oldest first.
+   */
+  private restartTimes: number[] = [];
+
+  constructor(policy: Optional<Partial<RestartPolicy>>) {
+    this.policy = { ...defaultRestartPolicy, ...policy };
+  }
+
+  /**
+   * Register a new crash.
+   *
+   * @returns the delay in milliseconds after which the server should be
+   *     restarted, or `undefined` if the policy doesn't allow any more
+   *     restarts.
+   */
+  public scheduleRestart(): Optional<number> {
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter(
+      (time) => now - time < this.policy.windowMs,
+    );
+    if (this.restartTimes.length >= this.policy.maxRestarts) {
+      return undefined;
+    }
+    // The first restart within a window is immediate, and the following ones
+    // are exponentially delayed.
+    const delay =
+      this.restartTimes.length === 0
+        ? 0
+        : Math.min(
+            this.policy.initialBackoffMs *
+              Math.pow(2, this.restartTimes.length - 1),
+            this.policy.maxBackoffMs,
+          );
+    this.restartTimes.push(now + delay);
+    return delay;
+  }
+
+  /**
+   * @returns the number of restarts within the current window.
+   */
+  public get recentRestartCount(): number {
+    return this.restartTimes.length;
+  }
+}
@@ -0,0 +1,216 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import {
+  CodeAction,
+  Command,
+  CompletionItem,
+  CompletionList,
+  ExecuteCommandParams,
+} from 'vscode-languageserver-protocol';
+
+import { Optional, URI } from './types';
+
+/**
+ * The key of the tags that record the workspace folder of the server that
+ * produced a result.
+ */
+const originKey = 'mojoProxyFolder';
+
+/**
+ * A tag wrapping the `data` of an item, or appended to the arguments of a
+ * command. The folder is null for the server of the documents outside of the
+ * workspace folders.
+ */
+type OriginTag = { [originKey]: URI | null; data?: unknown };
+
+/**
+ * An item that can be resolved later, along with its command.
+ */
+type ResolvableItem = { data?: unknown; command?: Command };
+
+/**
+ * The requests that follow up on an item produced by a previous request, and
+ * that must be handled by the same server.
+ */
+const resolveMethods = new Set([
+  'completionItem/resolve',
+  'codeLens/resolve',
+  'codeAction/resolve',
+  'documentLink/resolve',
+  'inlayHint/resolve',
+  'workspaceSymbol/resolve',
+]);
+
+function isOriginTag(value: unknown): value is OriginTag {
+  return typeof value === 'object' && value !== null && originKey in value;
+}
+
+function tagData(
+  item: Optional<ResolvableItem> | null,
+  folderUri: Optional<URI>,
+) {
+  if (typeof item !== 'object' || item === null || isOriginTag(item.data)) {
+    return;
+  }
+  const tag: OriginTag = { [originKey]: folderUri ?? null, data: item.data };
+  item.data = tag;
+}
+
+function tagCommand(command: Optional<Command>, folderUri: Optional<URI>) {
+  if (typeof command?.command !== 'string') {
+    return;
+  }
+  const args = command.arguments ?? [];
+  if (isOriginTag(args[args.length - 1])) {
+    return;
+  }
+  const tag: OriginTag = { [originKey]: folderUri ?? null };
+  command.arguments = [...args, tag];
+}
+
+function untagCommand<C extends { arguments?: unknown[] }>(
+  command: Optional<C>,
+): Optional<C> {
+  const args = command?.arguments;
+  if (args === undefined || !isOriginTag(args[args.length - 1])) {
+    return command;
+  }
+  // Arguments left undefined are dropped when the command is sent.
+  return {
+    ...command!,
+    arguments: args.length > 1 ? args.slice(0, -1) : undefined,
+  };
+}
+
+/**
+ * Tag an item that can be resolved later, along with its command.
+ */
+function tagItem(
+  item: Optional<ResolvableItem> | null,
+  folderUri: Optional<URI>,
+) {
+  tagData(item, folderUri);
+  tagCommand(item?.command, folderUri);
+}
+
+/**
+ * Tag the items of a completion result. The items of a `CompletionList`
+ * without `data` of their own inherit the one of its `itemDefaults`, which is
+ * tagged instead, so that they keep inheriting it.
+ */
+function tagCompletions(
+  completions: Optional<CompletionList | CompletionItem[]> | null,
+  folderUri: Optional<URI>,
+) {
+  if (Array.isArray(completions)) {
+    completions.forEach((item) => tagItem(item, folderUri));
+    return;
+  }
+  const itemDefaults = completions?.itemDefaults;
+  if (itemDefaults?.data !== undefined) {
+    tagData(itemDefaults, folderUri);
+  }
+  for (const item of completions?.items ?? []) {
+    if (item.data === undefined && itemDefaults?.data !== undefined) {
+      tagCommand(item.command, folderUri);
+    } else {
+      tagItem(item, folderUri);
+    }
+  }
+}
+
+/**
+ * Tag the items and commands of the result of the given request with the
+ * workspace folder of the server that produced it, so that the requests that
+ * follow up on them are sent to the same server. The result is modified in
+ * place.
+ *
+ * @returns the given result.
+ */
+export function tagResultOrigin<T>(
+  method: string,
+  result: T,
+  folderUri: Optional<URI>,
+): T {
+  const value: unknown = result;
+  const items = (
+    Array.isArray(value) ? value : [value]
+  ) as (ResolvableItem | null)[];
+  switch (method) {
+    case 'textDocument/completion':
+      tagCompletions(
+        value as Optional<CompletionList | CompletionItem[]> | null,
+        folderUri,
+      );
+      break;
+    case 'textDocument/codeAction':
+    case 'codeAction/resolve':
+      for (const item of items as (Command | CodeAction | null)[]) {
+        // Code actions can be plain commands.
+        if (Command.is(item)) {
+          tagCommand(item, folderUri);
+        } else {
+          tagItem(item, folderUri);
+        }
+      }
+      break;
+    case 'completionItem/resolve':
+    case 'textDocument/codeLens':
+    case 'codeLens/resolve':
+      items.forEach((item) => tagItem(item, folderUri));
+      break;
+    case 'textDocument/documentLink':
+    case 'documentLink/resolve':
+    case 'textDocument/inlayHint':
+    case 'inlayHint/resolve':
+    case 'workspace/symbol':
+    case 'workspaceSymbol/resolve':
+      items.forEach((item) => tagData(item, folderUri));
+      break;
+  }
+  return result;
+}
+
+/**
+ * @returns the workspace folder of the server that produced the item or
+ *     command the given request follows up on, along with the params without
+ *     the tags, or undefined if the params aren't tagged.
+ */
+export function getResultOrigin<P>(
+  method: string,
+  params: P,
+): Optional<{ folderUri: Optional<URI>; params: P }> {
+  if (method === 'workspace/executeCommand') {
+    const command = params as Optional<ExecuteCommandParams>;
+    const args = command?.arguments;
+    const tag: unknown = args?.[args.length - 1];
+    if (!isOriginTag(tag)) {
+      return undefined;
+    }
+    return {
+      folderUri: tag[originKey] ?? undefined,
+      params: untagCommand(command) as P,
+    };
+  }
+  const item = params as Optional<ResolvableItem> | null;
+  const tag = item?.data;
+  if (!resolveMethods.has(method) || !item || !isOriginTag(tag)) {
+    return undefined;
+  }
+  const untagged: ResolvableItem = { ...item, data: tag.data };
+  if (untagged.command !== undefined) {
+    untagged.command = untagCommand(untagged.command);
+  }
+  return { folderUri: tag[originKey] ?? undefined, params: untagged as P };
+}
@@ -0,0 +1,215 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { CrashBacktrace, Optional } from './types';
+
+/**
+ * The severity of a message written by the server to stderr.
+ */
+export type LogLevel = 'error' | 'warning' | 'info' | 'log';
+
+/**
+ * The lines that report the failure that led to a crash.
+ */
+const failurePatterns = [
+  /^LLVM ERROR:/,
+  /Assertion .* failed/,
+  /^UNREACHABLE executed/,
+];
+
+/**
+ * The lines that start a crash backtrace, as printed by LLVM and Mojo.
+ */
+const backtraceStartPatterns = [
+  ...failurePatterns,
+  /PLEASE submit a bug report/,
+  /^Stack dump:/,
+];
+
+/**
+ * The lines that continue a crash backtrace, besides the ones that start it.
+ */
+const backtraceContinuationPatterns = [
+  /^Stack dump without symbol names/,
+  // Entries of the pretty stack trace, e.g. `0.\tProgram arguments: ...`.
+  /^\s*\d+\.\s/,
+];
+
+/**
+ * A frame of a stack dump, either `#0 0x... symbol (module+0x...)` or
+ * `0  module 0x... symbol + offset`. The capture is everything after the
+ * address.
+ */
+const stackFramePattern = /^\s*#?\d+\s+(?:\S+\s+)?0x[0-9a-fA-F]+\s*(.*)$/;
+
+/**
+ * The frames that belong to the crash handling itself rather than to the
+ * crash.
+ */
+const crashHandlerFramePattern =
+  /llvm::sys::|SignalHandler|__restore_rt|_sigtramp|__pthread_kill|\bpthread_kill\b|\bgsignal\b|\braise\b|\babort\b|__assert_fail|__GI_/;
+
+/**
+ * The number of frames that make the signature of a backtrace.
+ */
+const signatureFrameCount = 3;
+
+/**
+ * The paths and URIs within a line, which might reveal user names and files.
+ */
+const pathPatterns = [
+  /file:\/\/\S+/g,
+  /(?<=^|[\s'"`(=])(?:[A-Za-z]:)?[\\/][^\s'"`():]+/g,
+  /[^\s'"`():\\/]+\.(?:mojo|🔥|ipynb)(?!\w)/gu,
+];
+
+/**
+ * MLIR-style log prefixes, e.g. `E[12:34:56.789]`.
+ */
+const timestampedLevelPattern = /^([DIVWE])\[\d{2}:\d{2}:\d{2}\.\d+\]/;
+
+/**
+ * @returns the severity of a regular line written to stderr.
+ */
+function parseLogLevel(line: string): LogLevel {
+  const match = line.match(timestampedLevelPattern);
+  if (match !== null) {
+    switch (match[1]) {
+      case 'E':
+        return 'error';
+      case 'W':
+        return 'warning';
+      case 'I':
+        return 'info';
+      default:
+        return 'log';
+    }
+  }
+  if (/^(fatal )?error:/i.test(line)) {
+    return 'error';
+  }
+  if (/^warning:/i.test(line)) {
+    return 'warning';
+  }
+  return 'log';
+}
+
+/**
+ * @returns the symbol of the given stack frame line without its module and
+ *     offset, or undefined if the line isn't a symbolized frame.
+ */
+function getFrameSymbol(line: string): Optional<string> {
+  const match = line.match(stackFramePattern);
+  if (match === null) {
+    return undefined;
+  }
+  const symbol = match[1]
+    .replace(/\s+\((?:\/|[A-Za-z]:\\)[^()]*\)$/, '')
+    .replace(/\s+\+\s+\d+$/, '')
+    .trim();
+  // Unsymbolized frames only have a module and an offset.
+  return symbol === '' || symbol.startsWith('(') ? undefined : symbol;
+}
+
+/**
+ * @returns the given line with its paths and URIs replaced by a placeholder.
+ */
+function stripPaths(line: string): string {
+  return pathPatterns.reduce(
+    (stripped, pattern) => stripped.replace(pattern, '<path>'),
+    line,
+  );
+}
+
+/**
+ * @returns a short description of where the crash happened: its innermost
+ *     symbolized frames, or else the line that reports the failure, if any.
+ *     The signature is reported to telemetry, so it's free of paths.
+ */
+function getSignature(lines: string[]): Optional<string> {
+  const symbols = lines
+    .map(getFrameSymbol)
+    .filter(
+      (symbol): symbol is string =>
+        symbol !== undefined && !crashHandlerFramePattern.test(symbol),
+    );
+  if (symbols.length > 0) {
+    return symbols.slice(0, signatureFrameCount).join(' < ');
+  }
+  const failure = lines.find((line) =>
+    failurePatterns.some((pattern) => pattern.test(line)),
+  );
+  return failure !== undefined ? stripPaths(failure).trim() : undefined;
+}
+
+/**
+ * Class that classifies the lines written by the server to stderr by
+ * severity, and groups the lines of crash backtraces into a single message.
+ */
+export class StderrParser {
+  private backtraceLines: string[] = [];
+  private lastBacktrace: Optional<CrashBacktrace>;
+  private logger: (level: LogLevel, message: string) => void;
+
+  /**
+   * @param logger The callback that receives each regular line and each
+   *     complete backtrace, which is reported as an error.
+   */
+  constructor(logger: (level: LogLevel, message: string) => void) {
+    this.logger = logger;
+  }
+
+  /**
+   * Process a line written to stderr, without its line terminator.
+   */
+  public push(line: string): void {
+    const startsBacktrace = backtraceStartPatterns.some((pattern) =>
+      pattern.test(line),
+    );
+    if (
+      startsBacktrace ||
+      (this.backtraceLines.length > 0 &&
+        (stackFramePattern.test(line) ||
+          backtraceContinuationPatterns.some((pattern) => pattern.test(line))))
+    ) {
+      this.backtraceLines.push(line);
+      return;
+    }
+    this.flush();
+    this.logger(parseLogLevel(line), line);
+  }
+
+  /**
+   * Report the backtrace being processed, if any, e.g. because the server
+   * exited.
+   */
+  public flush(): void {
+    if (this.backtraceLines.length === 0) {
+      return;
+    }
+    const lines = this.backtraceLines;
+    this.backtraceLines = [];
+    this.lastBacktrace = {
+      text: lines.join('\n'),
+      signature: getSignature(lines),
+    };
+    this.logger('error', this.lastBacktrace.text);
+  }
+
+  /**
+   * @returns the last complete backtrace written to stderr, if any.
+   */
+  public getLastBacktrace(): Optional<CrashBacktrace> {
+    return this.lastBacktrace;
+  }
+}
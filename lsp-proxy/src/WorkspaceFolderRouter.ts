@@ -0,0 +1,89 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import { InitializeParams } from 'vscode-languageserver-protocol';
+
+import { InitializationOptions, Optional, URI } from './types';
+
+/**
+ * @returns the given workspace folder URI without trailing slashes.
+ */
+export function normalizeFolderUri(uri: URI): URI {
+  return uri.replace(/\/+$/, '');
+}
+
+/**
+ * Class that maps document URIs to the workspace folder that contains them.
+ * The folders are fixed when the client initializes the proxy.
+ */
+export class WorkspaceFolderRouter {
+  /**
+   * The workspace folders without trailing slashes. The first one is the
+   * primary folder.
+   */
+  private folderUris: URI[];
+
+  constructor(folderUris: URI[]) {
+    this.folderUris = [...new Set(folderUris.map(normalizeFolderUri))];
+  }
+
+  /**
+   * Create a router for the workspace folders sent by the client, falling
+   * back to its root URI, and the folders with specific options.
+   */
+  public static fromInitializeParams(
+    params: InitializeParams,
+  ): WorkspaceFolderRouter {
+    const options: InitializationOptions = params.initializationOptions;
+    const folderUris =
+      params.workspaceFolders?.map((folder) => folder.uri) ??
+      (params.rootUri ? [params.rootUri] : []);
+    for (const folderOptions of options.workspaceFolderOptions ?? []) {
+      folderUris.push(folderOptions.uri);
+    }
+    return new WorkspaceFolderRouter(folderUris);
+  }
+
+  /**
+   * @returns whether documents might be routed to more than one folder.
+   */
+  public hasMultipleFolders(): boolean {
+    return this.folderUris.length > 1;
+  }
+
+  /**
+   * @returns the workspace folders, starting with the primary one.
+   */
+  public getFolders(): URI[] {
+    return [...this.folderUris];
+  }
+
+  /**
+   * @returns the innermost workspace folder that contains the given URI. URIs
+   *     outside of all folders, or not given at all, belong to the primary
+   *     folder, which is undefined if there are no folders.
+   */
+  public getFolder(uri: Optional<URI>): Optional<URI> {
+    let folder: Optional<URI>;
+    for (const folderUri of this.folderUris) {
+      if (
+        uri !== undefined &&
+        (uri === folderUri || uri.startsWith(folderUri + '/')) &&
+        (folder === undefined || folderUri.length > folder.length)
+      ) {
+        folder = folderUri;
+      }
+    }
+    return folder ?? this.folderUris[0];
+  }
+}
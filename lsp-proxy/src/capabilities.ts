@@ -0,0 +1,353 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import {
+  FileOperationOptions,
+  ServerCapabilities,
+} from 'vscode-languageserver-protocol';
+
+/**
+ * A request method that is relayed to the server only if the server advertises
+ * the corresponding capability.
+ */
+export type CapabilityMethod = {
+  method: string;
+  /**
+   * The capability of the server that covers the method.
+   */
+  capability: keyof ServerCapabilities;
+  /**
+   * Whether the params of the request have a `textDocument` entry, in which
+   * case the request is subject to the crash handling of its document.
+   */
+  withDocument: boolean;
+  /**
+   * Whether the method is advertised, if it takes more than the capability
+   * being set, e.g. for resolve requests.
+   */
+  isAdvertised?: (capabilities: ServerCapabilities) => boolean;
+};
+
+/**
+ * @returns whether the given capability is advertised and has the
+ *     `resolveProvider` option enabled.
+ */
+function hasResolveProvider(capability: unknown): boolean {
+  return (
+    typeof capability === 'object' &&
+    capability !== null &&
+    (capability as { resolveProvider?: boolean }).resolveProvider === true
+  );
+}
+
+/**
+ * The file operations the server can ask to be told about that the proxy
+ * relays. The notifications sent after the operations aren't relayed.
+ */
+const relayedFileOperations = [
+  'willCreate',
+  'willRename',
+  'willDelete',
+] as const;
+
+/**
+ * @returns whether the server wants to be asked before the given kind of file
+ *     operation.
+ */
+function hasFileOperation(
+  capabilities: ServerCapabilities,
+  operation: (typeof relayedFileOperations)[number],
+): boolean {
+  return capabilities.workspace?.fileOperations?.[operation] !== undefined;
+}
+
+/**
+ * @returns the `workspace` capabilities of the server restricted to the file
+ *     operations that the proxy relays, or undefined if there are none. The
+ *     other ones involve notifications that the proxy doesn't relay to every
+ *     server.
+ */
+function getRelayedWorkspaceCapabilities(
+  capabilities: ServerCapabilities,
+): ServerCapabilities['workspace'] {
+  const fileOperations: FileOperationOptions = {};
+  for (const operation of relayedFileOperations) {
+    if (hasFileOperation(capabilities, operation)) {
+      fileOperations[operation] =
+        capabilities.workspace!.fileOperations![operation];
+    }
+  }
+  return Object.keys(fileOperations).length > 0
+    ? { fileOperations }
+    : undefined;
+}
+
+/**
+ * The capabilities covering the requests and notifications that the proxy
+ * always relays, or that don't involve any request.
+ */
+const alwaysRelayedCapabilities = new Set<keyof ServerCapabilities>([
+  'positionEncoding',
+  'textDocumentSync',
+  'notebookDocumentSync',
+  'codeActionProvider',
+  'completionProvider',
+  'definitionProvider',
+  'documentSymbolProvider',
+  'foldingRangeProvider',
+  'hoverProvider',
+  'referencesProvider',
+  'renameProvider',
+  'signatureHelpProvider',
+  'inlayHintProvider',
+  'semanticTokensProvider',
+  'experimental',
+]);
+
+/**
+ * The request methods that are relayed based on the capabilities of the
+ * server, in addition to the ones that the proxy always relays.
+ */
+export const capabilityMethods: CapabilityMethod[] = [
+  {
+    method: 'textDocument/declaration',
+    capability: 'declarationProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/typeDefinition',
+    capability: 'typeDefinitionProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/implementation',
+    capability: 'implementationProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/documentHighlight',
+    capability: 'documentHighlightProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/selectionRange',
+    capability: 'selectionRangeProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/prepareRename',
+    capability: 'renameProvider',
+    withDocument: true,
+    isAdvertised: (c) =>
+      typeof c.renameProvider === 'object' &&
+      c.renameProvider.prepareProvider === true,
+  },
+  {
+    method: 'textDocument/prepareCallHierarchy',
+    capability: 'callHierarchyProvider',
+    withDocument: true,
+  },
+  {
+    method: 'callHierarchy/incomingCalls',
+    capability: 'callHierarchyProvider',
+    withDocument: false,
+  },
+  {
+    method: 'callHierarchy/outgoingCalls',
+    capability: 'callHierarchyProvider',
+    withDocument: false,
+  },
+  {
+    method: 'textDocument/prepareTypeHierarchy',
+    capability: 'typeHierarchyProvider',
+    withDocument: true,
+  },
+  {
+    method: 'typeHierarchy/supertypes',
+    capability: 'typeHierarchyProvider',
+    withDocument: false,
+  },
+  {
+    method: 'typeHierarchy/subtypes',
+    capability: 'typeHierarchyProvider',
+    withDocument: false,
+  },
+  {
+    method: 'textDocument/codeLens',
+    capability: 'codeLensProvider',
+    withDocument: true,
+  },
+  {
+    method: 'codeLens/resolve',
+    capability: 'codeLensProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.codeLensProvider),
+  },
+  {
+    method: 'textDocument/documentLink',
+    capability: 'documentLinkProvider',
+    withDocument: true,
+  },
+  {
+    method: 'documentLink/resolve',
+    capability: 'documentLinkProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.documentLinkProvider),
+  },
+  {
+    method: 'completionItem/resolve',
+    capability: 'completionProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.completionProvider),
+  },
+  {
+    method: 'codeAction/resolve',
+    capability: 'codeActionProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.codeActionProvider),
+  },
+  {
+    method: 'inlayHint/resolve',
+    capability: 'inlayHintProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.inlayHintProvider),
+  },
+  {
+    method: 'textDocument/semanticTokens/range',
+    capability: 'semanticTokensProvider',
+    withDocument: true,
+    isAdvertised: (c) => !!c.semanticTokensProvider?.range,
+  },
+  {
+    method: 'textDocument/formatting',
+    capability: 'documentFormattingProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/rangeFormatting',
+    capability: 'documentRangeFormattingProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/onTypeFormatting',
+    capability: 'documentOnTypeFormattingProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/linkedEditingRange',
+    capability: 'linkedEditingRangeProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/documentColor',
+    capability: 'colorProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/colorPresentation',
+    capability: 'colorProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/inlineValue',
+    capability: 'inlineValueProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/moniker',
+    capability: 'monikerProvider',
+    withDocument: true,
+  },
+  {
+    method: 'textDocument/diagnostic',
+    capability: 'diagnosticProvider',
+    withDocument: true,
+  },
+  {
+    method: 'workspace/diagnostic',
+    capability: 'diagnosticProvider',
+    withDocument: false,
+    isAdvertised: (c) => !!c.diagnosticProvider?.workspaceDiagnostics,
+  },
+  {
+    method: 'workspace/symbol',
+    capability: 'workspaceSymbolProvider',
+    withDocument: false,
+  },
+  {
+    method: 'workspaceSymbol/resolve',
+    capability: 'workspaceSymbolProvider',
+    withDocument: false,
+    isAdvertised: (c) => hasResolveProvider(c.workspaceSymbolProvider),
+  },
+  {
+    method: 'workspace/executeCommand',
+    capability: 'executeCommandProvider',
+    withDocument: false,
+  },
+  {
+    method: 'workspace/willCreateFiles',
+    capability: 'workspace',
+    withDocument: false,
+    isAdvertised: (c) => hasFileOperation(c, 'willCreate'),
+  },
+  {
+    method: 'workspace/willRenameFiles',
+    capability: 'workspace',
+    withDocument: false,
+    isAdvertised: (c) => hasFileOperation(c, 'willRename'),
+  },
+  {
+    method: 'workspace/willDeleteFiles',
+    capability: 'workspace',
+    withDocument: false,
+    isAdvertised: (c) => hasFileOperation(c, 'willDelete'),
+  },
+];
+
+/**
+ * @returns whether the server advertises the given method.
+ */
+export function isAdvertised(
+  { capability, isAdvertised }: CapabilityMethod,
+  capabilities: ServerCapabilities,
+): boolean {
+  return isAdvertised?.(capabilities) ?? !!capabilities[capability];
+}
+
+/**
+ * @returns the given capabilities without the ones that the proxy doesn't
+ *     know how to relay, so that the client never sends requests that would
+ *     fail with `MethodNotFound`.
+ */
+export function getRelayedCapabilities(
+  capabilities: ServerCapabilities,
+): ServerCapabilities {
+  const relayedCapabilities: ServerCapabilities = {};
+  for (const [capability, value] of Object.entries(capabilities)) {
+    if (capability === 'workspace') {
+      continue;
+    }
+    if (
+      alwaysRelayedCapabilities.has(capability as keyof ServerCapabilities) ||
+      capabilityMethods.some((entry) => entry.capability === capability)
+    ) {
+      (relayedCapabilities as Record<string, unknown>)[capability] = value;
+    }
+  }
+  const workspace = getRelayedWorkspaceCapabilities(capabilities);
+  if (workspace !== undefined) {
+    relayedCapabilities.workspace = workspace;
+  }
+  return relayedCapabilities;
+}
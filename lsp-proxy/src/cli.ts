@@ -0,0 +1,244 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { InitializationOptions, Optional } from './types';
+
+/**
+ * The options given on the command line, used when the client doesn't send
+ * initialization options, e.g. when the proxy is used outside of VSCode.
+ */
+export interface CommandLineOptions {
+  serverPath: Optional<string>;
+  serverArgs: string[];
+  /**
+   * The environment variables added to the environment of the proxy.
+   */
+  serverEnv: { [env: string]: string };
+}
+
+/**
+ * Parse the flags of the proxy. The flags that select the transport, e.g.
+ * `--stdio` or `--node-ipc`, are handled by `vscode-languageserver` and
+ * ignored here.
+ *
+ * @throws if a flag is missing its value or `--env` is not of the form
+ *     `KEY=VALUE`.
+ */
+export function parseCommandLine(argv: string[]): CommandLineOptions {
+  const options: CommandLineOptions = {
+    serverPath: undefined,
+    serverArgs: [],
+    serverEnv: {},
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^(--server-path|--server-arg|--env)(=(.*))?$/);
+    if (match === null) {
+      continue;
+    }
+    const flag = match[1];
+    let value: Optional<string> = match[3];
+    if (value === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new Error(`Missing value for ${flag}.`);
+      }
+      value = argv[++i];
+    }
+
+    if (flag === '--server-path') {
+      options.serverPath = value;
+    } else if (flag === '--server-arg') {
+      options.serverArgs.push(value);
+    } else {
+      const separator = value.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Expected KEY=VALUE for --env, got '${value}'.`);
+      }
+      options.serverEnv[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+  }
+  return options;
+}
+
+/**
+ * The options of the replay command line, besides the ones that select the
+ * server.
+ */
+export interface ReplayCommandLineOptions extends CommandLineOptions {
+  recordingPath: string;
+  keepTiming: boolean;
+  timeoutMs: number;
+  /**
+   * Whether to print the report as JSON instead of a summary.
+   */
+  json: boolean;
+}
+
+/**
+ * The flags of the replay command line that take a value, either as the next
+ * argument or after an equal sign.
+ */
+const replayValueFlags = [
+  '--server-path',
+  '--server-arg',
+  '--env',
+  '--timeout-ms',
+];
+
+/**
+ * Parse the flags of the replay script, which takes the path to the recording
+ * as its only positional argument, followed or preceded by the server flags
+ * of the proxy and `--keep-timing`, `--timeout-ms <ms>` and `--json`.
+ *
+ * @throws if the recording is missing or a flag is unknown or invalid.
+ */
+export function parseReplayCommandLine(
+  argv: string[],
+): ReplayCommandLineOptions {
+  const positionalArgs: string[] = [];
+  let keepTiming = false;
+  let json = false;
+  let timeoutMs = 30 * 1000;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionalArgs.push(arg);
+      continue;
+    }
+    if (arg === '--keep-timing') {
+      keepTiming = true;
+      continue;
+    }
+    if (arg === '--json') {
+      json = true;
+      continue;
+    }
+    const match = arg.match(/^(--[^=]*)(=(.*))?$/)!;
+    const flag = match[1];
+    if (!replayValueFlags.includes(flag)) {
+      throw new Error(`Unknown flag ${flag}.`);
+    }
+    let value: Optional<string> = match[3];
+    if (value === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new Error(`Missing value for ${flag}.`);
+      }
+      value = argv[++i];
+    }
+    // The values of the server flags are handled by `parseCommandLine`.
+    if (flag === '--timeout-ms') {
+      timeoutMs = Number(value);
+      if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+        throw new Error(`Expected a positive number for --timeout-ms.`);
+      }
+    }
+  }
+  if (positionalArgs.length !== 1) {
+    throw new Error('Expected the path to a single recording.');
+  }
+  return {
+    ...parseCommandLine(argv),
+    recordingPath: positionalArgs[0],
+    keepTiming,
+    timeoutMs,
+    json,
+  };
+}
+
+/**
+ * @returns the `lsp_server_path` entry of the `mojo-max` section of the given
+ *     `modular.cfg` file, if it can be read.
+ */
+function readServerPathFromModularCfg(cfgPath: string): Optional<string> {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(cfgPath, 'utf8');
+  } catch {
+    return undefined;
+  }
+  let section: Optional<string>;
+  for (const line of contents.split(/\r?\n/)) {
+    const sectionMatch = line.match(/^\s*\[([^\]]*)\]\s*$/);
+    if (sectionMatch !== null) {
+      section = sectionMatch[1].trim();
+      continue;
+    }
+    const entryMatch = line.match(/^\s*lsp_server_path\s*=\s*(.*?)\s*$/);
+    if (section === 'mojo-max' && entryMatch !== null) {
+      return entryMatch[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find `mojo-lsp-server` the same way the extension does, from the
+ * `MODULAR_HOME` or `CONDA_PREFIX` environment variables.
+ *
+ * @returns the path to the server, if one was found.
+ */
+export function discoverServerPath(env: {
+  [env: string]: Optional<string>;
+}): Optional<string> {
+  const candidates: Optional<string>[] = [];
+  if (env.MODULAR_HOME) {
+    candidates.push(
+      readServerPathFromModularCfg(path.join(env.MODULAR_HOME, 'modular.cfg')),
+    );
+  }
+  if (env.CONDA_PREFIX) {
+    candidates.push(
+      readServerPathFromModularCfg(
+        path.join(env.CONDA_PREFIX, 'share', 'max', 'modular.cfg'),
+      ),
+      path.join(env.CONDA_PREFIX, 'bin', 'mojo-lsp-server'),
+    );
+  }
+  return candidates.find(
+    (candidate) => candidate !== undefined && fs.existsSync(candidate),
+  );
+}
+
+/**
+ * Complete the initialization options sent by the client with the command
+ * line options, discovering the server if its path is given by neither.
+ *
+ * @throws if the server can't be found.
+ */
+export function resolveInitializationOptions(
+  options: Optional<Partial<InitializationOptions>>,
+  commandLineOptions: CommandLineOptions,
+): InitializationOptions {
+  const serverEnv = options?.serverEnv ?? {
+    ...process.env,
+    ...commandLineOptions.serverEnv,
+  };
+  const serverPath =
+    options?.serverPath ??
+    commandLineOptions.serverPath ??
+    discoverServerPath(serverEnv);
+  if (serverPath === undefined) {
+    throw new Error(
+      'Unable to find mojo-lsp-server. Pass --server-path, set MODULAR_HOME ' +
+        'or CONDA_PREFIX, or send the serverPath initialization option.',
+    );
+  }
+  return {
+    ...options,
+    serverPath,
+    serverArgs: options?.serverArgs ?? commandLineOptions.serverArgs,
+    serverEnv,
+  };
+}
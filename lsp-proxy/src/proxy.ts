@@ -11,7 +11,16 @@
 // limitations under the License.
 //===----------------------------------------------------------------------===//
 
+import { CommandLineOptions, parseCommandLine } from './cli';
 import { MojoLSPProxy } from './MojoLSPProxy';
 
-const lspProxy = new MojoLSPProxy();
+let commandLineOptions: CommandLineOptions;
+try {
+  commandLineOptions = parseCommandLine(process.argv.slice(2));
+} catch (e) {
+  console.error(`mojo-lsp-proxy: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
+
+const lspProxy = new MojoLSPProxy(commandLineOptions);
 lspProxy.start();
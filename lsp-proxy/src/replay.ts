@@ -0,0 +1,65 @@
+//===----------------------------------------------------------------------===//
+// Copyright (c) 2025, Modular Inc. All rights reserved.
+//
+// Licensed under the Apache License v2.0 with LLVM Exceptions:
+// https://llvm.org/LICENSE.txt
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+//===----------------------------------------------------------------------===//
+
+import * as fs from 'fs';
+
+import {
+  parseReplayCommandLine,
+  ReplayCommandLineOptions,
+  resolveInitializationOptions,
+} from './cli';
+import {
+  formatReplayReport,
+  hasReplayProblems,
+  parseRecording,
+  RecordingReplayer,
+} from './RecordingReplayer';
+import { InitializationOptions, RecordedMessage } from './types';
+
+let commandLineOptions: ReplayCommandLineOptions;
+let initializationOptions: InitializationOptions;
+let messages: RecordedMessage[];
+try {
+  commandLineOptions = parseReplayCommandLine(process.argv.slice(2));
+  initializationOptions = resolveInitializationOptions(
+    undefined,
+    commandLineOptions,
+  );
+  messages = parseRecording(
+    fs.readFileSync(commandLineOptions.recordingPath, 'utf8'),
+  );
+} catch (e) {
+  console.error(`mojo-lsp-replay: ${e instanceof Error ? e.message : e}`);
+  process.exit(2);
+}
+
+const replayer = new RecordingReplayer({
+  initializationOptions,
+  options: commandLineOptions,
+  // Progress goes to stderr, so that stdout only has the report.
+  logger: (message: string) => console.error(message),
+});
+replayer.replay(messages).then(
+  (report) => {
+    console.log(
+      commandLineOptions.json
+        ? JSON.stringify(report)
+        : formatReplayReport(report),
+    );
+    process.exit(hasReplayProblems(report) ? 1 : 0);
+  },
+  (e) => {
+    console.error(`mojo-lsp-replay: ${e}`);
+    process.exit(2);
+  },
+);
@@ -50,25 +50,39 @@ export class LineSeparatedStream {
 /**
  * A stream reader based on the JSON-RPC protocol that reports whenever a
  * notification or the response to a request is found.
+ *
+ * The stream is processed as raw bytes, as the `Content-Length` header is a
+ * byte count and chunks might be split in the middle of a multi-byte
+ * character. Malformed packets are logged and skipped.
  */
 export class JSONRPCStream {
-  static protocolHeader = 'Content-Length: ';
+  static contentLengthHeader = 'content-length';
+  static headerSeparator = '\r\n';
   static protocolLineSeparator = '\r\n\r\n';
-  private buffer = '';
+  private buffer = Buffer.alloc(0);
   private enabled = true;
+  private logger: (message: string) => void;
 
+  /**
+   * @param logger The callback used to report malformed packets.
+   */
   constructor(
     rawStream: NodeJS.ReadableStream,
     onResponse: (response: JSONObject) => void,
     onNotification: (notification: JSONObject) => void,
     onOutgoingRequest: (request: JSONObject) => void,
+    logger: (message: string) => void,
   ) {
-    rawStream.on('data', (chunk: string) => {
+    this.logger = logger;
+    rawStream.on('data', (chunk: Buffer | string) => {
       if (!this.enabled) {
         return;
       }
 
-      this.buffer += chunk;
+      this.buffer = Buffer.concat([
+        this.buffer,
+        typeof chunk === 'string' ? Buffer.from(chunk) : chunk,
+      ]);
 
       let packet: Optional<JSONObject>;
       while ((packet = this.tryProcessPacket()) != undefined) {
@@ -89,44 +103,95 @@ export class JSONRPCStream {
 
   /**
    * Tries to read a packet from the buffer and update that buffer if found.
+   * Malformed packets are skipped, so this only returns `undefined` when more
+   * data is needed.
    */
   private tryProcessPacket(): Optional<JSONObject> {
-    // We process first the protocol header.
-    if (!this.buffer.startsWith(JSONRPCStream.protocolHeader)) {
-      return undefined;
-    }
-    // Then we parse the content length.
-    let index = JSONRPCStream.protocolHeader.length;
-    let contentLength = 0;
-    for (; index < this.buffer.length; index++) {
-      const c = this.buffer[index];
-
-      if (c < '0' || c > '9') {
-        break;
+    for (;;) {
+      // We process first the protocol headers, which might include others
+      // than `Content-Length`, e.g. `Content-Type`.
+      const headersEndPos = this.buffer.indexOf(
+        JSONRPCStream.protocolLineSeparator,
+      );
+      if (headersEndPos === -1) {
+        return undefined;
+      }
+      const contentLength = this.parseContentLength(
+        this.buffer.toString('ascii', 0, headersEndPos),
+      );
+      if (contentLength === undefined) {
+        this.resync();
+        continue;
       }
-      contentLength = contentLength * 10 + parseInt(c);
-    }
-    // Then we parse the line separator.
-    if (
-      !this.buffer
-        .substring(index)
-        .startsWith(JSONRPCStream.protocolLineSeparator)
-    ) {
-      return undefined;
-    }
 
-    // Then we extract the contents of the packet.
-    const contentBegPos = index + JSONRPCStream.protocolLineSeparator.length;
-    const contentBytes = Buffer.from(this.buffer.substring(contentBegPos));
+      // Then we extract the contents of the packet.
+      const contentBegPos =
+        headersEndPos + JSONRPCStream.protocolLineSeparator.length;
+      if (this.buffer.length - contentBegPos < contentLength) {
+        return undefined;
+      }
+      const contents = this.buffer.toString(
+        'utf8',
+        contentBegPos,
+        contentBegPos + contentLength,
+      );
+
+      // We update the buffer to point past this packet.
+      this.buffer = this.buffer.subarray(contentBegPos + contentLength);
+
+      try {
+        const packet = JSON.parse(contents);
+        if (typeof packet === 'object' && packet !== null) {
+          return packet;
+        }
+      } catch {
+        // The packet is reported below.
+      }
+      this.logger(`Skipping malformed JSON-RPC packet: ${contents}`);
+    }
+  }
 
-    if (contentBytes.length < contentLength) {
-      return undefined;
+  /**
+   * @returns the value of the `Content-Length` header, or `undefined` if the
+   *     headers are malformed.
+   */
+  private parseContentLength(headers: string): Optional<number> {
+    let contentLength: Optional<number>;
+    for (const header of headers.split(JSONRPCStream.headerSeparator)) {
+      const separatorPos = header.indexOf(':');
+      if (separatorPos === -1) {
+        this.logger(`Skipping malformed JSON-RPC header: ${header}`);
+        return undefined;
+      }
+      const name = header.substring(0, separatorPos).trim().toLowerCase();
+      const value = header.substring(separatorPos + 1).trim();
+      if (name === JSONRPCStream.contentLengthHeader) {
+        if (!/^\d+$/.test(value)) {
+          this.logger(`Skipping malformed JSON-RPC header: ${header}`);
+          return undefined;
+        }
+        contentLength = parseInt(value);
+      }
     }
-    const contents = contentBytes.subarray(0, contentLength).toString();
+    if (contentLength === undefined) {
+      this.logger(`Skipping JSON-RPC packet without length: ${headers}`);
+    }
+    return contentLength;
+  }
 
-    // We update the buffer to point past this packet.
-    this.buffer = this.buffer.substring(contentBegPos + contents.length);
-    return JSON.parse(contents);
+  /**
+   * Drop the beginning of the buffer until the next `Content-Length` header,
+   * so that processing can continue after a malformed packet.
+   */
+  private resync() {
+    const nextPacketPos = this.buffer
+      .toString('ascii')
+      .toLowerCase()
+      .indexOf(JSONRPCStream.contentLengthHeader, 1);
+    this.buffer =
+      nextPacketPos === -1
+        ? Buffer.alloc(0)
+        : this.buffer.subarray(nextPacketPos);
   }
 
   public dispose() {
@@ -136,18 +201,22 @@ export class JSONRPCStream {
 
 /**
  * A stream reader that reports whenever a given process exists. Its underlying
- * callback will be invoked at most once.
+ * callback will be invoked at most once, once the output of the process has
+ * been fully read.
  */
 export class ProcessExitStream {
   private enabled = true;
 
   constructor(process: ChildProcess, onExit: (status: ExitStatus) => void) {
-    process.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
-      if (!this.enabled) {
-        return;
-      }
-      onExit({ code, signal });
-    });
+    process.on(
+      'close',
+      (code: number | null, signal: NodeJS.Signals | null) => {
+        if (!this.enabled) {
+          return;
+        }
+        onExit({ code, signal });
+      },
+    );
   }
 
   public dispose() {
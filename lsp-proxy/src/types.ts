@@ -12,18 +12,39 @@
 //===----------------------------------------------------------------------===//
 
 import type {
+  CallHierarchyIncomingCallsParams,
+  CallHierarchyOutgoingCallsParams,
+  CallHierarchyPrepareParams,
+  CodeAction,
   CodeActionParams,
+  CodeLens,
+  CodeLensParams,
+  CompletionItem,
   CompletionParams,
+  DeclarationParams,
   DefinitionParams,
+  DocumentHighlightParams,
+  DocumentLink,
+  DocumentLinkParams,
   DocumentSymbolParams,
+  ExecuteCommandParams,
   FoldingRangeParams,
   HoverParams,
+  ImplementationParams,
   InitializeParams,
   InlayHintParams,
+  PrepareRenameParams,
   ReferenceParams,
+  SelectionRangeParams,
   SemanticTokensDeltaParams,
   SemanticTokensParams,
   SignatureHelpParams,
+  TypeDefinitionParams,
+  TypeHierarchyPrepareParams,
+  TypeHierarchySubtypesParams,
+  TypeHierarchySupertypesParams,
+  WorkspaceSymbol,
+  WorkspaceSymbolParams,
 } from 'vscode-languageserver-protocol';
 import type { createConnection as createClientConnection } from 'vscode-languageserver/node';
 
@@ -63,8 +84,363 @@ export interface InitializationOptions {
    * The environment to use when invoking `mojo-lsp-server`.
    */
   serverEnv: { [env: string]: Optional<string> };
+  /**
+   * The policy used to restart `mojo-lsp-server` after crashes. Missing fields
+   * take their default values.
+   */
+  restartPolicy?: Partial<RestartPolicy>;
+  /**
+   * Where and how to write crash reproduction bundles. No bundles are written
+   * if missing.
+   */
+  crashBundle?: CrashBundleOptions;
+  /**
+   * How to minimize the documents that crash the server. Crash triggers are
+   * only minimized if present.
+   */
+  crashMinimizer?: CrashMinimizerOptions;
+  /**
+   * When to consider `mojo-lsp-server` hung. Hung servers are not detected if
+   * missing.
+   */
+  watchdog?: WatchdogOptions;
+  /**
+   * When to recycle `mojo-lsp-server` because of its memory usage. The memory
+   * usage is not monitored if missing.
+   */
+  memoryMonitor?: MemoryMonitorOptions;
+  /**
+   * How to coalesce bursts of `textDocument/didChange` notifications. They are
+   * forwarded as they come if missing.
+   */
+  changeCoalescing?: ChangeCoalescingOptions;
+  /**
+   * The size limits above which expensive requests on a document are answered
+   * locally with empty results. Documents are never limited if missing.
+   */
+  largeFile?: LargeFileOptions;
+  /**
+   * Whether to launch a secondary `mojo-lsp-server` for each workspace folder,
+   * which tracks the same documents and answers latency-sensitive read-only
+   * requests while the primary one is busy, e.g. with semantic tokens.
+   */
+  secondaryServer?: boolean;
+  /**
+   * The options of the servers in charge of specific workspace folders, which
+   * override the ones above.
+   */
+  workspaceFolderOptions?: WorkspaceFolderOptions[];
+}
+
+/**
+ * This type represents the options of the server in charge of the documents
+ * of a workspace folder.
+ */
+export interface WorkspaceFolderOptions {
+  /**
+   * The URI of the workspace folder.
+   */
+  uri: URI;
+  serverPath?: string;
+  serverArgs?: string[];
+  serverEnv?: { [env: string]: Optional<string> };
+}
+
+/**
+ * This type represents the size limits of documents. Missing limits don't
+ * apply.
+ */
+export interface LargeFileOptions {
+  maxLines?: number;
+  maxBytes?: number;
+}
+
+/**
+ * This type represents the options for coalescing document changes.
+ */
+export interface ChangeCoalescingOptions {
+  /**
+   * The time changes are held back, starting from the first change of a burst,
+   * before they are sent to the server as a single notification.
+   */
+  windowMs: number;
+}
+
+/**
+ * This type represents the options for monitoring the memory usage of the
+ * server.
+ */
+export interface MemoryMonitorOptions {
+  /**
+   * The resident set size above which the server is recycled.
+   */
+  thresholdBytes: number;
+  /**
+   * The interval between memory usage samples.
+   */
+  intervalMs: number;
+}
+
+/**
+ * This type represents the options for detecting hung servers.
+ */
+export interface WatchdogOptions {
+  /**
+   * The time after which a server whose oldest pending request hasn't been
+   * responded is considered hung, killed and restarted.
+   */
+  timeoutMs: number;
+}
+
+/**
+ * This type represents the options for minimizing crash triggers.
+ */
+export interface CrashMinimizerOptions {
+  /**
+   * The maximum number of times the crash is replayed on a fresh server.
+   */
+  maxAttempts: number;
+  /**
+   * The time after which a replay that didn't crash the server is abandoned.
+   */
+  timeoutMs: number;
+}
+
+/**
+ * A custom notification sent to the extension with the minimized contents of
+ * a document that crashed the server.
+ */
+export type MinimizedCrashTriggerParams = {
+  /**
+   * The URI of the original document.
+   */
+  uri: URI;
+  /**
+   * The minimized contents that still crash the server.
+   */
+  text: string;
+};
+
+/**
+ * This type represents the options for writing crash reproduction bundles.
+ */
+export interface CrashBundleOptions {
+  /**
+   * The directory where a new bundle is created upon each crash.
+   */
+  directory: string;
+  /**
+   * The number of messages sent to the server before the crash that are
+   * included in the bundle.
+   */
+  messageCount: number;
+  /**
+   * The number of bundles kept in the directory. The oldest ones are deleted.
+   */
+  maxCount: number;
+}
+
+/**
+ * The state of a server captured right after it crashed.
+ */
+export type ServerCrashInfo = {
+  pid: Optional<number>;
+  pendingRequests: { id: RequestId; method: string; params: RequestParams }[];
+  recentPackets: JSONObject[];
+  stderrTail: string[];
+  /**
+   * The last crash backtrace written by the server to stderr, if any.
+   */
+  backtrace: Optional<CrashBacktrace>;
+};
+
+/**
+ * A crash backtrace written by the server to stderr.
+ */
+export type CrashBacktrace = {
+  /**
+   * The lines of the backtrace.
+   */
+  text: string;
+  /**
+   * A short description of where the crash happened, if it can be told from
+   * the backtrace.
+   */
+  signature?: string;
+};
+
+/**
+ * A custom notification sent to the extension whenever the server crashed and
+ * is about to be restarted.
+ */
+export type LSPRestartParams = {
+  /**
+   * The path to the crash reproduction bundle, if one was written.
+   */
+  crashBundlePath?: string;
+  /**
+   * The crash backtrace written by the server to stderr, if any.
+   */
+  backtrace?: CrashBacktrace;
+};
+
+/**
+ * A custom notification sent to the extension the first time expensive
+ * requests on a large document are answered locally.
+ */
+export type LargeFileModeParams = {
+  uri: URI;
+  lineCount: number;
+  byteCount: number;
+};
+
+/**
+ * A custom notification sent by the extension to let the expensive requests
+ * on a large document reach the server again.
+ */
+export type EnableLargeFileFeaturesParams = {
+  uri: URI;
+};
+
+/**
+ * A custom notification sent to the extension whenever a healthy server is
+ * replaced by a fresh one.
+ */
+export type LSPRecycleParams = {
+  /**
+   * A human-readable explanation of why the server was recycled.
+   */
+  reason: string;
+};
+
+/**
+ * A custom notification sent to the extension whenever a new server process is
+ * launched for a workspace folder, once the client is initialized.
+ */
+export type ServerProcessParams = {
+  /**
+   * The PID of the server, if it could be spawned.
+   */
+  pid?: number;
+  /**
+   * The workspace folder of the server, if any.
+   */
+  workspaceFolder?: URI;
+};
+
+/**
+ * This type represents how the proxy restarts a crashed server.
+ */
+export interface RestartPolicy {
+  /**
+   * The maximum number of restarts within `windowMs`. Once exceeded, the proxy
+   * gives up and stops restarting the server.
+   */
+  maxRestarts: number;
+  /**
+   * The length of the sliding window used to count restarts.
+   */
+  windowMs: number;
+  /**
+   * The delay before the second restart within a window, which is doubled for
+   * each subsequent restart.
+   */
+  initialBackoffMs: number;
+  /**
+   * The maximum delay before a restart.
+   */
+  maxBackoffMs: number;
 }
 
+/**
+ * The states of the server reported to the extension with the
+ * `mojo/lspServerState` notification.
+ */
+export type ServerState =
+  | 'starting'
+  | 'running'
+  | 'restarting'
+  | 'reopeningDocuments'
+  | 'backingOff'
+  | 'gaveUp';
+
+/**
+ * A custom notification sent to the extension whenever the server state
+ * changes because of a crash, or because the server of a workspace folder is
+ * started.
+ */
+export type ServerStateParams = {
+  state: ServerState;
+  /**
+   * The number of restarts within the current restart policy window.
+   */
+  restartCount: number;
+  /**
+   * The delay before the next restart, only set when backing off.
+   */
+  delayMs?: number;
+  /**
+   * The workspace folder of the server, if any.
+   */
+  workspaceFolder?: URI;
+};
+
+/**
+ * The params of the custom `mojo/proxyStats` request sent by the extension to
+ * get the request statistics of the proxy.
+ */
+export type ProxyStatsParams = {
+  /**
+   * Whether to reset the statistics after returning them.
+   */
+  reset?: boolean;
+};
+
+/**
+ * The statistics of the requests sent to the server with a given method.
+ */
+export type MethodStats = {
+  method: string;
+  /**
+   * The number of requests that ended, either successfully or not.
+   */
+  count: number;
+  errors: number;
+  cancellations: number;
+  /**
+   * The number of requests that were pending for too long, even if they were
+   * eventually responded.
+   */
+  timeouts: number;
+  inFlight: number;
+  requestsPerSecond: number;
+  /**
+   * Latency percentiles of the responded requests, missing if there are none.
+   */
+  p50Ms?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+};
+
+/**
+ * The response to the `mojo/proxyStats` request.
+ */
+export type ProxyStats = {
+  /**
+   * The time covered by the statistics, i.e. since the last reset.
+   */
+  elapsedMs: number;
+  inFlight: number;
+  maxInFlight: number;
+  methods: MethodStats[];
+  /**
+   * The number of cacheable requests answered from the response cache, and
+   * sent to the server instead.
+   */
+  cacheHits: number;
+  cacheMisses: number;
+};
+
 /**
  * This type represents a decoded JSON object.
  */
@@ -101,6 +477,84 @@ export type RecordSessionParams = {
   enabled: boolean;
 };
 
+/**
+ * The first line of a session recording written by the extension, describing
+ * the session it was taken from. Only version 2 recordings have a header.
+ */
+export type RecordingHeader = {
+  kind: 'header';
+  formatVersion: number;
+  startTime: string;
+  extensionVersion: string;
+  sdkVersion?: string;
+  sdkKind?: string;
+  serverPath?: string;
+  serverArgs?: string[];
+  redacted?: boolean;
+};
+
+/**
+ * A message of a version 2 session recording. Requests sent by the client are
+ * followed by a response with the same id once they complete.
+ */
+export type RecordedMessage = {
+  kind: 'request' | 'response' | 'notification';
+  direction: 'clientToServer' | 'serverToClient';
+  /**
+   * Milliseconds since the start of the recording.
+   */
+  timeMs: number;
+  id?: number | string;
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+  durationMs?: number;
+};
+
+/**
+ * A request whose replayed response doesn't match the recorded one.
+ */
+export type ReplayDifference = {
+  id: number | string;
+  method: string;
+  recorded: unknown;
+  actual: unknown;
+};
+
+/**
+ * The outcome of replaying a session recording against a server.
+ */
+export type ReplayReport = {
+  serverPath: string;
+  /**
+   * The number of messages sent to the server, including requests.
+   */
+  messageCount: number;
+  requestCount: number;
+  /**
+   * The number of requests whose recorded response was compared with the
+   * replayed one.
+   */
+  comparedCount: number;
+  differences: ReplayDifference[];
+  /**
+   * The requests that weren't responded in time.
+   */
+  timeouts: { id: number | string; method: string }[];
+  /**
+   * Set if the server exited before the replay finished.
+   */
+  crash?: {
+    status: ExitStatus;
+    /**
+     * The method of the oldest request pending when the server exited.
+     */
+    method?: string;
+    backtrace?: CrashBacktrace;
+  };
+};
+
 /**
  * This union type represents all supported request params that contain a
  * `textDocument` entry.
@@ -116,13 +570,36 @@ export type RequestParamsWithDocument =
   | SignatureHelpParams
   | InlayHintParams
   | SemanticTokensParams
-  | SemanticTokensDeltaParams;
+  | SemanticTokensDeltaParams
+  | DeclarationParams
+  | TypeDefinitionParams
+  | ImplementationParams
+  | DocumentHighlightParams
+  | SelectionRangeParams
+  | PrepareRenameParams
+  | CallHierarchyPrepareParams
+  | TypeHierarchyPrepareParams
+  | CodeLensParams
+  | DocumentLinkParams;
 
 /**
  * This union type represents all supported request params that don't contain a
  * `textDocument` entry.
  */
-export type RequestParamsWithoutDocument = InitializeParams | ShutdownParams;
+export type RequestParamsWithoutDocument =
+  | InitializeParams
+  | ShutdownParams
+  | CallHierarchyIncomingCallsParams
+  | CallHierarchyOutgoingCallsParams
+  | TypeHierarchySupertypesParams
+  | TypeHierarchySubtypesParams
+  | CodeLens
+  | DocumentLink
+  | CompletionItem
+  | CodeAction
+  | WorkspaceSymbolParams
+  | WorkspaceSymbol
+  | ExecuteCommandParams;
 
 /**
  * This union type represents all supported request params.